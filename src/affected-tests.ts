@@ -0,0 +1,186 @@
+/**
+ * @file Impact analysis of changed files on CMake tests
+ */
+
+import * as child_process from 'child_process';
+import * as path from 'path';
+import {
+	CmakeCodemodel,
+	CmakeTarget,
+	findCmakeTestTarget,
+} from './cmake-file-api';
+import {
+	getCmakeTestDependencies,
+	getCmakeTestStringProperty,
+} from './cmake-runner';
+import { CmakeTestInfo } from './interfaces/cmake-test-info';
+
+/**
+ * Get CMake tests affected by changed files
+ *
+ * A test is affected when:
+ * - the target of its executable or one of its dependencies compiles a
+ *   changed file
+ * - one of its `REQUIRED_FILES` changed
+ * - it `DEPENDS` on an affected test
+ *
+ * @param tests All CMake tests
+ * @param files Absolute paths of changed files
+ * @param buildDir CMake build directory
+ * @param codemodel CMake codemodel (optional)
+ *
+ * @return Affected tests, in test order
+ */
+export function getAffectedCmakeTests(
+	tests: CmakeTestInfo[],
+	files: string[],
+	buildDir: string,
+	codemodel?: CmakeCodemodel
+) {
+	const changedFiles = new Set(files.map(normalizePath));
+	const affectedTargets = codemodel
+		? getAffectedTargets(changedFiles, codemodel.targets)
+		: new Set<string>();
+
+	const affected = new Set<CmakeTestInfo>();
+	for (const test of tests) {
+		const target =
+			codemodel && findCmakeTestTarget(test, codemodel.targets);
+		if (target && affectedTargets.has(target.id)) {
+			affected.add(test);
+			continue;
+		}
+
+		// Relative required files are relative to the test working dir
+		const cwd = path.resolve(
+			buildDir,
+			getCmakeTestStringProperty(test, 'WORKING_DIRECTORY') || ''
+		);
+		const { requiredFiles } = getCmakeTestDependencies(test);
+		if (
+			requiredFiles.some((file) =>
+				changedFiles.has(normalizePath(path.resolve(cwd, file)))
+			)
+		) {
+			affected.add(test);
+		}
+	}
+
+	// Tests depending on affected tests are affected as well
+	let added = true;
+	while (added) {
+		added = false;
+		for (const test of tests) {
+			if (affected.has(test)) continue;
+			const { depends } = getCmakeTestDependencies(test);
+			if ([...affected].some(({ name }) => depends.includes(name))) {
+				affected.add(test);
+				added = true;
+			}
+		}
+	}
+
+	return tests.filter((test) => affected.has(test));
+}
+
+/**
+ * Get CMake targets affected by changed files
+ *
+ * @param changedFiles Normalized paths of changed files
+ * @param targets Codemodel targets
+ *
+ * @return IDs of targets compiling changed files or depending on such targets
+ */
+function getAffectedTargets(changedFiles: Set<string>, targets: CmakeTarget[]) {
+	const affected = new Set(
+		targets
+			.filter(({ sources }) =>
+				sources.some((source) =>
+					changedFiles.has(normalizePath(source))
+				)
+			)
+			.map(({ id }) => id)
+	);
+
+	// Propagate to dependent targets, e.g. executables linking a library
+	let added = true;
+	while (added) {
+		added = false;
+		for (const { id, dependencies } of targets) {
+			if (affected.has(id)) continue;
+			if (dependencies.some((dependency) => affected.has(dependency))) {
+				affected.add(id);
+				added = true;
+			}
+		}
+	}
+	return affected;
+}
+
+/**
+ * Get files changed in a Git working tree
+ *
+ * This includes staged, unstaged and untracked files.
+ *
+ * @param cwd Directory within the working tree
+ *
+ * @return Absolute paths of changed files
+ */
+export async function getGitChangedFiles(cwd: string) {
+	const topLevel = (
+		await runGit(cwd, ['rev-parse', '--show-toplevel'])
+	).trim();
+	const status = await runGit(cwd, [
+		'status',
+		'--porcelain',
+		'-z',
+		'--untracked-files=all',
+	]);
+
+	// Entries are `XY path`, followed by the original path for renames & copies
+	const files: string[] = [];
+	const entries = status.split('\0');
+	for (let index = 0; index < entries.length; index++) {
+		const entry = entries[index];
+		if (entry.length < 4) continue;
+		files.push(path.resolve(topLevel, entry.substring(3)));
+		if (/^[RC]/.test(entry)) index++;
+	}
+	return files;
+}
+
+/**
+ * Run Git command
+ *
+ * @param cwd Directory to run the command within
+ * @param args Command-line arguments
+ *
+ * @return Command output
+ */
+function runGit(cwd: string, args: string[]): Promise<string> {
+	return new Promise<string>((resolve, reject) => {
+		child_process.execFile(
+			'git',
+			args,
+			{ cwd, maxBuffer: 64 * 1024 * 1024 },
+			(error, stdout) => {
+				if (error) {
+					reject(new Error(`Error running 'git': ${error.message}`));
+				} else {
+					resolve(stdout);
+				}
+			}
+		);
+	});
+}
+
+/**
+ * Normalize file path for comparison
+ *
+ * @param file Absolute file path
+ */
+function normalizePath(file: string) {
+	return process.platform === 'win32'
+		? path.normalize(file).toLowerCase()
+		: path.normalize(file);
+}
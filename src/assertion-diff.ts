@@ -0,0 +1,222 @@
+/**
+ * @file Expected/actual values of assertion failures
+ */
+
+import { ANSI_COLOR_RE } from './error-matchers';
+
+/**
+ * Regexp for Boost.Test failure, e.g.
+ * `file.cpp(12): error: in "suite/case": check a == b has failed [1 != 2]`
+ */
+const BOOST_FAILURE_RE =
+	/^(.+?)\((\d+)\): (?:fatal )?error: in "[^"]*": (.*? has failed \[([^]*?) != ([^]*)\])$/;
+
+/**
+ * Regexp for Catch2 failure, e.g. `file.cpp:12: FAILED:` or
+ * `file.cpp(12): FAILED:`
+ */
+const CATCH2_FAILURE_RE = /^(.+?)(?::(\d+)|\((\d+)\)): FAILED:$/;
+
+/** Regexp for Catch2 expansion operands, e.g. `1 == 2` */
+const CATCH2_EXPANSION_RE = /^([^]*?) (?:==|equals:) ([^]*)$/;
+
+/**
+ * Regexp for GoogleTest failure, e.g. `file.cc:12: Failure` or
+ * `file.cc(12): error: Value of: x` on Windows
+ */
+const GTEST_FAILURE_RE =
+	/^(.+?)(?::(\d+):|\((\d+)\):) (?:Failure|error: (?!in ")(.*))$/;
+
+/** Regexp for GoogleTest equality operand value, e.g. `    Which is: 1` */
+const GTEST_WHICH_IS_RE = /^\s*Which is: (.*)$/;
+
+/** Assertion failure with expected & actual values */
+export interface AssertionDiff {
+	/** Failure message */
+	message: string;
+
+	/** Expected value */
+	expected: string;
+
+	/** Actual value */
+	actual: string;
+
+	/** Source file, if known */
+	file?: string;
+
+	/** 1-based line number, if known */
+	line?: number;
+}
+
+/**
+ * Parse assertion failures with expected & actual values in test output
+ *
+ * Supports GoogleTest, Catch2 and Boost.Test console output. Failures without
+ * comparable values (e.g. inequalities) are ignored.
+ *
+ * @param lines Test output lines
+ *
+ * @return Assertion failures found in output
+ */
+export function parseAssertionDiffs(lines: string[]): AssertionDiff[] {
+	const diffs: AssertionDiff[] = [];
+	lines = lines.map((line) => line.replace(ANSI_COLOR_RE, ''));
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i];
+		let matches;
+		if ((matches = line.match(BOOST_FAILURE_RE))) {
+			// Single-line Boost.Test failure
+			const [, file, lineNumber, message, actual, expected] = matches;
+			diffs.push({
+				message,
+				expected,
+				actual,
+				file,
+				line: Number.parseInt(lineNumber),
+			});
+		} else if ((matches = line.match(CATCH2_FAILURE_RE))) {
+			// Catch2 failure block ends with an empty line
+			const block: string[] = [];
+			while (i + 1 < lines.length && lines[i + 1].trim()) {
+				block.push(lines[++i]);
+			}
+			const values = parseCatch2Values(block);
+			if (values) {
+				diffs.push({
+					message: block.join('\n'),
+					...values,
+					file: matches[1],
+					line: Number.parseInt(matches[2] || matches[3]),
+				});
+			}
+		} else if ((matches = line.match(GTEST_FAILURE_RE))) {
+			// GoogleTest failure block ends at the next status or failure line
+			const block = matches[4] !== undefined ? [matches[4]] : [];
+			while (
+				i + 1 < lines.length &&
+				!lines[i + 1].startsWith('[') &&
+				!GTEST_FAILURE_RE.test(lines[i + 1])
+			) {
+				block.push(lines[++i]);
+			}
+			const values = parseGtestValues(block);
+			if (values) {
+				diffs.push({
+					message: block.join('\n').trim(),
+					...values,
+					file: matches[1],
+					line: Number.parseInt(matches[2] || matches[3]),
+				});
+			}
+		}
+	}
+	return diffs;
+}
+
+/**
+ * Get expected & actual values from GoogleTest failure message
+ *
+ * Operands of `EXPECT_EQ(expected, actual)` and similar assertions follow the
+ * historical GoogleTest argument order.
+ *
+ * @param lines Failure message lines
+ *
+ * @return Values, or undefined if the failure has no comparable values
+ */
+export function parseGtestValues(
+	lines: string[]
+): { expected: string; actual: string } | undefined {
+	// Equality assertions, e.g.:
+	//
+	// Expected equality of these values:
+	//   a
+	//     Which is: 1
+	//   b
+	//     Which is: 2
+	const start = lines.indexOf('Expected equality of these values:');
+	if (start >= 0) {
+		const operands: string[] = [];
+		for (const line of lines.slice(start + 1)) {
+			const matches = line.match(GTEST_WHICH_IS_RE);
+			if (matches && operands.length) {
+				operands[operands.length - 1] = matches[1];
+			} else if (line.startsWith('  ') && !line.startsWith('   ')) {
+				operands.push(line.substring(2));
+			} else {
+				break;
+			}
+		}
+		if (operands.length !== 2) return;
+		const [expected, actual] = operands;
+		return { expected, actual };
+	}
+
+	// Boolean assertions, e.g.:
+	//
+	// Value of: a
+	//   Actual: false
+	// Expected: true
+	const valueOf = lines.findIndex((line) => line.startsWith('Value of: '));
+	if (valueOf >= 0) {
+		let actual: string | undefined;
+		let expected: string | undefined;
+		for (const line of lines.slice(valueOf + 1)) {
+			let matches;
+			if ((matches = line.match(/^\s*Actual: (.*)$/))) {
+				actual = matches[1];
+			} else if ((matches = line.match(/^Expected: (.*)$/))) {
+				expected = matches[1];
+			} else if (
+				(matches = line.match(GTEST_WHICH_IS_RE)) &&
+				expected !== undefined
+			) {
+				expected = matches[1];
+			} else {
+				break;
+			}
+		}
+		if (actual === undefined || expected === undefined) return;
+		return { expected, actual };
+	}
+
+	return undefined;
+}
+
+/**
+ * Get expected & actual values from Catch2 failure block
+ *
+ * Expansions are either on a single line, e.g. `1 == 2`, or split over
+ * several lines around the operator for multi-line values. The left operand
+ * is the actual value.
+ *
+ * @param block Failure block lines, without header
+ *
+ * @return Values, or undefined if the failure has no comparable values
+ */
+function parseCatch2Values(
+	block: string[]
+): { expected: string; actual: string } | undefined {
+	const start = block.indexOf('with expansion:');
+	if (start < 0) return;
+
+	// Expansion lines are indented
+	const expansion: string[] = [];
+	for (const line of block.slice(start + 1)) {
+		if (!line.startsWith('  ')) break;
+		expansion.push(line.substring(2));
+	}
+
+	const operator = expansion.findIndex(
+		(line) => line === '==' || line === 'equals:'
+	);
+	if (operator >= 0) {
+		return {
+			actual: expansion.slice(0, operator).join('\n'),
+			expected: expansion.slice(operator + 1).join('\n'),
+		};
+	}
+	const matches = expansion.join('\n').match(CATCH2_EXPANSION_RE);
+	if (!matches) return;
+	const [, actual, expected] = matches;
+	return { expected, actual };
+}
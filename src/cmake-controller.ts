@@ -5,6 +5,9 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as os from 'os';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as child_process from 'child_process';
 import { CmakeTestInfo } from './interfaces/cmake-test-info';
 import {
 	getCtestPath,
@@ -15,25 +18,193 @@ import {
 	cancelCmakeTestProcess,
 	getCmakeTestDebugConfiguration,
 	getCmakeTestEnvironmentVariables,
+	isJunitOutputSupported,
+	getJunitOutputFile,
+	getCmakeTestLabels,
+	getCmakeTestLocation,
+	getCmakeTestFixtures,
+	getCmakeTestCriteria,
+	getCmakeFixtureTests,
+	CmakeTestFixtures,
+	matchCmakeTestLabels,
+	getCmakePath,
+	getCmakeConfigurationTypes,
+	getCmakeCrossCompilingEmulator,
+	scheduleCmakeBuildProcess,
+	executeCmakeBuildProcess,
 	CTEST_TEST_FILE,
+	CMAKE_CACHE_FILE,
 	CmakeTestRunOptions,
 	CmakeTestEvent,
+	CmakeTestEndEvent,
 } from './cmake-runner';
+import {
+	isGtestExecutable,
+	listGtestCases,
+	getGtestWorkingDirectory,
+	getGtestCaseName,
+	scheduleGtestProcess,
+	executeGtestProcess,
+	parseGtestReportFile,
+	parseGtestOutput,
+	getGtestFilter,
+	GtestCaseResult,
+	GtestFailure,
+} from './gtest';
+import {
+	CoverageData,
+	collectGcovCoverage,
+	mergeCoverageData,
+	parseLcovFile,
+	resetGcovCounters,
+} from './coverage';
+import {
+	CmakeTestPreset,
+	getCmakeTestPreset,
+	getCmakeTestPresets,
+	hasCmakePresets,
+} from './cmake-presets';
+import {
+	TestHistory,
+	TestHistoryEntry,
+	getPassRate,
+	isFlakyTest,
+} from './test-history';
+import { TestDiagnostics } from './test-diagnostics';
+import { parseStackTraces, StackTraceReport } from './stack-trace';
+import { AssertionDiff, parseAssertionDiffs } from './assertion-diff';
+import { readMemcheckLogFile, removeMemcheckLogFiles } from './memcheck';
+import {
+	ErrorMatch,
+	ErrorMatcher,
+	ErrorMatcherConfig,
+	getErrorMatchers,
+	matchErrors,
+} from './error-matchers';
+import {
+	DebugWrapperConfig,
+	getDebugWrappers,
+	unwrapTestCommand,
+} from './debug-wrappers';
+import {
+	CmakeCodemodel,
+	CmakeTarget,
+	findCmakeTestTarget,
+	readCmakeCodemodel,
+	writeCodemodelQuery,
+} from './cmake-file-api';
+import { getAffectedCmakeTests, getGitChangedFiles } from './affected-tests';
+import { CriteriaExplanation, explainCmakeTestResult } from './test-criteria';
+import {
+	PathMappingConfig,
+	RemoteTransport,
+	getRemoteTransport,
+	toLocalCmakeCodemodel,
+} from './remote-transport';
 
 /** Extra root item info */
 interface RootItemData {
 	workspaceFolder: vscode.WorkspaceFolder;
+
+	/** Test preset used to load the build dir, if any */
+	preset?: CmakeTestPreset;
+
+	/** Build configuration of multi-config generator roots, if any */
+	buildConfig?: string;
+
+	/** CMake File API codemodel of the build dir, if any */
+	codemodel?: CmakeCodemodel;
+
+	/** Remote transport running CTest, if any */
+	transport?: RemoteTransport;
 }
 const rootItemDataMap = new WeakMap<vscode.TestItem, RootItemData>();
 
+/** Extra GoogleTest case item info */
+interface GtestItemData {
+	/** Name of the CTest test running the case */
+	testName: string;
+}
+const gtestItemDataMap = new WeakMap<vscode.TestItem, GtestItemData>();
+
+/** Extra file coverage info */
+interface FileCoverageData {
+	/** Line execution counts */
+	lines: Map<number, number>;
+
+	/** Line execution counts per test */
+	testLines: Map<vscode.TestItem, Map<number, number>>;
+}
+const fileCoverageDataMap = new WeakMap<
+	vscode.FileCoverage,
+	FileCoverageData
+>();
+
+/** Test grouping mode, see `cmakeExplorer.testGrouping` */
+type TestGrouping = 'none' | 'target' | 'directory';
+
+/** Label run profile settings */
+interface LabelRunProfile {
+	/** Profile name */
+	name: string;
+
+	/** Regexp of labels to include (see `ctest -L`) */
+	include?: string;
+
+	/** Regexp of labels to exclude (see `ctest -LE`) */
+	exclude?: string;
+}
+
+/** CMake targets of test & group items */
+const targetMap = new WeakMap<vscode.TestItem, CmakeTarget>();
+
+/** Fixtures of CMake test items */
+const fixturesMap = new WeakMap<vscode.TestItem, CmakeTestFixtures>();
+
+/** Tag of flaky tests */
+const FLAKY_TAG = new vscode.TestTag('flaky');
+
+/** Icons of test history states */
+const HISTORY_STATE_ICONS = {
+	passed: '$(pass)',
+	failed: '$(error)',
+	skipped: '$(debug-step-over)',
+};
+
+/** Test history, loaded when the controller is created */
+let testHistory: TestHistory | undefined;
+
+/** Test failure diagnostics, created with the controller */
+let testDiagnostics: TestDiagnostics | undefined;
+
+/** Delay in milliseconds before reloading a build dir after a file change */
+const RELOAD_DELAY = 1000;
+
+/** Delay in milliseconds before rerunning tests after an executable change */
+const CONTINUOUS_RUN_DELAY = 1000;
+
+/** Build dir file watchers, by workspace folder URI */
+const workspaceWatchers = new Map<string, vscode.Disposable[]>();
+
+/** Pending build dir reloads, by build dir path */
+const pendingReloads = new Map<string, NodeJS.Timeout>();
+
 /**
  * Create CMake test controller
+ *
+ * @param context Extension context
  */
-export function createCmakeController() {
+export function createCmakeController(context: vscode.ExtensionContext) {
 	const controller = vscode.tests.createTestController(
 		'cmakeTestExplorer',
 		'CMake Tests'
 	);
+	context.subscriptions.push({ dispose: disposeWatchers });
+	testHistory = new TestHistory(context.workspaceState);
+	const diagnosticCollection =
+		vscode.languages.createDiagnosticCollection('cmakeTestExplorer');
+	context.subscriptions.push(diagnosticCollection);
+	testDiagnostics = new TestDiagnostics(diagnosticCollection);
 
 	controller.resolveHandler = async (item?: vscode.TestItem) => {
 		if (!item) {
@@ -49,8 +220,15 @@ export function createCmakeController() {
 		'Run',
 		vscode.TestRunProfileKind.Run,
 		async (request, token) => {
-			await runTests(controller, request, token);
-		}
+			if (request.continuous) {
+				await watchTests(controller, request, token);
+			} else {
+				await runTests(controller, request, token);
+			}
+		},
+		false,
+		undefined,
+		true
 	);
 	controller.createRunProfile(
 		'Debug',
@@ -59,10 +237,227 @@ export function createCmakeController() {
 			await debugTests(controller, request, token);
 		}
 	);
+	const coverageProfile = controller.createRunProfile(
+		'Coverage',
+		vscode.TestRunProfileKind.Coverage,
+		async (request, token) => {
+			await runTestsWithCoverage(controller, request, token);
+		}
+	);
+	coverageProfile.loadDetailedCoverage = async (_run, fileCoverage) =>
+		getDetailedCoverage(fileCoverage);
+	coverageProfile.loadDetailedCoverageForTest = async (
+		_run,
+		fileCoverage,
+		fromTestItem
+	) => getDetailedCoverage(fileCoverage, fromTestItem);
+	controller.createRunProfile(
+		'Memcheck',
+		vscode.TestRunProfileKind.Run,
+		async (request, token) => {
+			// CTest writes no JUnit report in memcheck mode
+			await runTests(controller, request, token, {
+				memcheck: true,
+				junitFile: undefined,
+			});
+		}
+	);
+	const affectedProfile = controller.createRunProfile(
+		'Run Affected',
+		vscode.TestRunProfileKind.Run,
+		async (request, token) => {
+			if (request.continuous) {
+				await watchAffectedTests(controller, request, token);
+			} else {
+				await runChangedTests(controller, request, token);
+			}
+		},
+		false,
+		undefined,
+		true
+	);
+	controller.createRunProfile(
+		'Run Repeatedly',
+		vscode.TestRunProfileKind.Run,
+		async (request, token) => {
+			const repeat = await askRepeatMode();
+			if (!repeat) return;
+			await runTests(controller, request, token, { repeat });
+		}
+	);
+
+	// Label run profiles, updated when settings change
+	let labelRunProfiles = createLabelRunProfiles(controller);
+	context.subscriptions.push(
+		vscode.workspace.onDidChangeConfiguration((e) => {
+			if (!e.affectsConfiguration('cmakeExplorer.labelRunProfiles')) {
+				return;
+			}
+			labelRunProfiles.forEach((profile) => profile.dispose());
+			labelRunProfiles = createLabelRunProfiles(controller);
+		}),
+		{
+			dispose: () =>
+				labelRunProfiles.forEach((profile) => profile.dispose()),
+		}
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'cmakeExplorer.selectTestPreset',
+			async () => {
+				if (await selectTestPreset()) {
+					await loadTestsFromAllWorkspaceFolders(controller);
+				}
+			}
+		),
+		vscode.commands.registerCommand(
+			'cmakeExplorer.showTestHistory',
+			async (item?: vscode.TestItem) => {
+				await showTestHistory(controller, item);
+			}
+		),
+		vscode.commands.registerCommand(
+			'cmakeExplorer.runAffectedTests',
+			async () => {
+				const tokenSource = new vscode.CancellationTokenSource();
+				try {
+					await runChangedTests(
+						controller,
+						new vscode.TestRunRequest(
+							undefined,
+							undefined,
+							affectedProfile
+						),
+						tokenSource.token
+					);
+				} finally {
+					tokenSource.dispose();
+				}
+			}
+		),
+		vscode.commands.registerCommand(
+			'cmakeExplorer.goToTargetDefinition',
+			async (item?: vscode.TestItem) => {
+				if (item) await goToTargetDefinition(item);
+			}
+		)
+	);
 
 	return controller;
 }
 
+/**
+ * Ask the user for the repeat mode of tests
+ *
+ * @return Repeat mode (see `ctest --repeat`), or undefined if cancelled
+ */
+async function askRepeatMode() {
+	const mode = await vscode.window.showQuickPick(
+		[
+			{ label: 'until-fail', detail: 'Repeat tests until they fail' },
+			{ label: 'until-pass', detail: 'Repeat tests until they pass' },
+			{
+				label: 'after-timeout',
+				detail: 'Repeat tests that time out until they pass',
+			},
+		],
+		{ placeHolder: 'Select repeat mode' }
+	);
+	if (!mode) return;
+
+	const count = await vscode.window.showInputBox({
+		prompt: 'Maximum number of iterations',
+		value: '10',
+		validateInput: (value) =>
+			/^[1-9]\d*$/.test(value) ? undefined : 'Enter a positive integer',
+	});
+	if (!count) return;
+
+	return `${mode.label}:${count}`;
+}
+
+/**
+ * Create run profiles for label filters defined in settings
+ *
+ * @param controller Test controller
+ *
+ * @return Created run profiles
+ */
+function createLabelRunProfiles(controller: vscode.TestController) {
+	const profiles =
+		vscode.workspace
+			.getConfiguration('cmakeExplorer')
+			.get<LabelRunProfile[]>('labelRunProfiles') || [];
+	return profiles
+		.filter(({ name }) => !!name)
+		.map(({ name, include, exclude }) =>
+			controller.createRunProfile(
+				name,
+				vscode.TestRunProfileKind.Run,
+				async (request, token) => {
+					await runTests(controller, request, token, {
+						includeLabels: include,
+						excludeLabels: exclude,
+					});
+				}
+			)
+		);
+}
+
+/**
+ * Let the user pick the test preset of a workspace folder
+ *
+ * The selected preset is stored in the workspace folder settings.
+ *
+ * @return Whether a preset was selected
+ */
+async function selectTestPreset() {
+	const workspaceFolder =
+		vscode.workspace.workspaceFolders?.length === 1
+			? vscode.workspace.workspaceFolders[0]
+			: await vscode.window.showWorkspaceFolderPick({
+					placeHolder: 'Select workspace folder',
+				});
+	if (!workspaceFolder) return false;
+
+	const sourceDir = workspaceFolder.uri.fsPath;
+	if (!hasCmakePresets(sourceDir)) {
+		await vscode.window.showInformationMessage(
+			`No CMake presets found in ${workspaceFolder.name}`
+		);
+		return false;
+	}
+	let presets: CmakeTestPreset[];
+	try {
+		presets = getCmakeTestPresets(sourceDir);
+	} catch (e) {
+		await vscode.window.showErrorMessage(`${e}`);
+		return false;
+	}
+
+	const items: (vscode.QuickPickItem & { preset?: string })[] = [
+		{ label: '[No Preset]', description: 'Use build dir settings' },
+		...presets.map(({ name, displayName, description }) => ({
+			label: displayName,
+			description: name !== displayName ? name : undefined,
+			detail: description,
+			preset: name,
+		})),
+	];
+	const selected = await vscode.window.showQuickPick(items, {
+		placeHolder: 'Select test preset',
+	});
+	if (!selected) return false;
+
+	await getWorkspaceConfiguration(workspaceFolder).update(
+		'testPreset',
+		selected.preset || undefined,
+		vscode.ConfigurationTarget.WorkspaceFolder
+	);
+	return true;
+}
+
 /**
  * Load tests from all workspace folders
  *
@@ -85,14 +480,31 @@ async function loadTestsFromWorkspace(
 	controller: vscode.TestController,
 	workspaceFolder: vscode.WorkspaceFolder
 ) {
-	const [autodetectBuildDirs, buildDir] = await getConfigStrings(
+	const [autodetectBuildDirs, buildDir, testPreset] = await getConfigStrings(
 		workspaceFolder,
-		['autodetectBuildDirs', 'buildDir']
+		['autodetectBuildDirs', 'buildDir', 'testPreset']
+	);
+
+	// Test preset takes precedence over build dir setting
+	const preset = testPreset
+		? getCmakeTestPreset(workspaceFolder.uri.fsPath, testPreset)
+		: undefined;
+	const buildDirUri = vscode.Uri.file(
+		preset
+			? preset.buildDir
+			: path.resolve(workspaceFolder.uri.fsPath, buildDir)
 	);
+	const watchPatterns = [
+		new vscode.RelativePattern(
+			buildDirUri,
+			`{${CMAKE_CACHE_FILE},**/${CTEST_TEST_FILE}}`
+		),
+	];
 	await loadTestsFromBuildDir(
 		controller,
 		workspaceFolder,
-		vscode.Uri.file(path.resolve(workspaceFolder.uri.fsPath, buildDir))
+		buildDirUri,
+		preset
 	);
 	if (autodetectBuildDirs === 'true') {
 		const pattern = new vscode.RelativePattern(
@@ -104,6 +516,156 @@ async function loadTestsFromWorkspace(
 			workspaceFolder,
 			pattern
 		);
+		watchPatterns.push(
+			new vscode.RelativePattern(
+				workspaceFolder,
+				`**/{${CMAKE_CACHE_FILE},${CTEST_TEST_FILE}}`
+			)
+		);
+	}
+	watchBuildDirs(controller, workspaceFolder, watchPatterns);
+}
+
+/**
+ * Watch build dir files for changes and reload affected build dirs
+ *
+ * @param controller Test controller
+ * @param workspaceFolder Workspace folder
+ * @param patterns File patterns to watch
+ */
+function watchBuildDirs(
+	controller: vscode.TestController,
+	workspaceFolder: vscode.WorkspaceFolder,
+	patterns: vscode.RelativePattern[]
+) {
+	const key = workspaceFolder.uri.toString();
+	workspaceWatchers.get(key)?.forEach((watcher) => watcher.dispose());
+
+	const onFileChange = (uri: vscode.Uri) =>
+		scheduleBuildDirReload(controller, workspaceFolder, uri);
+	const disposables: vscode.Disposable[] = [];
+	for (const pattern of patterns) {
+		const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+		disposables.push(
+			watcher,
+			watcher.onDidCreate(onFileChange),
+			watcher.onDidChange(onFileChange),
+			watcher.onDidDelete(onFileChange)
+		);
+	}
+	workspaceWatchers.set(key, disposables);
+}
+
+/**
+ * Dispose all build dir watchers and pending reloads
+ */
+function disposeWatchers() {
+	for (const disposables of workspaceWatchers.values()) {
+		disposables.forEach((disposable) => disposable.dispose());
+	}
+	workspaceWatchers.clear();
+	for (const timer of pendingReloads.values()) {
+		clearTimeout(timer);
+	}
+	pendingReloads.clear();
+}
+
+/**
+ * Schedule a debounced reload of the build dir containing a changed file
+ *
+ * @param controller Test controller
+ * @param workspaceFolder Workspace folder
+ * @param fileUri Changed file URI
+ */
+function scheduleBuildDirReload(
+	controller: vscode.TestController,
+	workspaceFolder: vscode.WorkspaceFolder,
+	fileUri: vscode.Uri
+) {
+	const buildDir = findBuildDir(controller, fileUri.fsPath);
+	if (!buildDir) return;
+
+	const timer = pendingReloads.get(buildDir);
+	if (timer) clearTimeout(timer);
+	pendingReloads.set(
+		buildDir,
+		setTimeout(() => {
+			pendingReloads.delete(buildDir);
+			reloadBuildDir(
+				controller,
+				workspaceFolder,
+				vscode.Uri.file(buildDir)
+			);
+		}, RELOAD_DELAY)
+	);
+}
+
+/**
+ * Find the build dir containing a CMake or CTest file
+ *
+ * @param controller Test controller
+ * @param filePath File path
+ *
+ * @return Build dir path, or undefined if not found
+ */
+function findBuildDir(controller: vscode.TestController, filePath: string) {
+	let dir = path.dirname(filePath);
+	if (path.basename(filePath) === CMAKE_CACHE_FILE) return dir;
+
+	// Nearest known root or directory with a cache file
+	for (;;) {
+		if (
+			getBuildDirRootItems(controller, vscode.Uri.file(dir)).length ||
+			fs.existsSync(path.join(dir, CMAKE_CACHE_FILE))
+		) {
+			return dir;
+		}
+		const parent = path.dirname(dir);
+		if (parent === dir) return;
+		dir = parent;
+	}
+}
+
+/**
+ * Reload tests from build dir, adding or removing its root item as needed
+ *
+ * @param controller Test controller
+ * @param workspaceFolder Workspace folder
+ * @param buildDirUri Build dir URI
+ */
+async function reloadBuildDir(
+	controller: vscode.TestController,
+	workspaceFolder: vscode.WorkspaceFolder,
+	buildDirUri: vscode.Uri
+) {
+	const rootItems = getBuildDirRootItems(controller, buildDirUri);
+	if (!fs.existsSync(path.join(buildDirUri.fsPath, CMAKE_CACHE_FILE))) {
+		// Build dir is gone
+		for (const rootItem of rootItems) {
+			controller.items.delete(rootItem.id);
+			testDiagnostics?.clear(rootItem.id);
+			testHistory?.prune(rootItem.id, []);
+		}
+		await testHistory?.save();
+		return;
+	}
+	try {
+		// Keep test preset if any, the presets files may have changed
+		const rootItem = rootItems[0];
+		let preset = rootItem && rootItemDataMap.get(rootItem)?.preset;
+		if (preset) {
+			preset = getCmakeTestPreset(preset.sourceDir, preset.name);
+		}
+		await loadTestsFromBuildDir(
+			controller,
+			workspaceFolder,
+			buildDirUri,
+			preset
+		);
+	} catch (e) {
+		for (const rootItem of getBuildDirRootItems(controller, buildDirUri)) {
+			rootItem.error = `${e}`;
+		}
 	}
 }
 
@@ -121,6 +683,13 @@ async function loadTestsFromTestFilePattern(
 ) {
 	for (const file of await vscode.workspace.findFiles(pattern)) {
 		const buildDir = path.dirname(file.fsPath);
+
+		// Skip build dirs already loaded, e.g. from a test preset
+		if (
+			getBuildDirRootItems(controller, vscode.Uri.file(buildDir)).length
+		) {
+			continue;
+		}
 		loadTestsFromBuildDir(
 			controller,
 			workspaceFolder,
@@ -129,21 +698,54 @@ async function loadTestsFromTestFilePattern(
 	}
 }
 
+/**
+ * Get root item ID of build dir
+ *
+ * @param buildDirUri Build dir URI
+ * @param configuration Build configuration of multi-config generators
+ */
+function getRootId(buildDirUri: vscode.Uri, configuration?: string) {
+	const rootId = buildDirUri.toString();
+	return configuration ? `${rootId}#${configuration}` : rootId;
+}
+
+/**
+ * Get root items of build dir, one per configuration for multi-config
+ * generators
+ *
+ * @param controller Test controller
+ * @param buildDirUri Build dir URI
+ */
+function getBuildDirRootItems(
+	controller: vscode.TestController,
+	buildDirUri: vscode.Uri
+) {
+	const rootItems: vscode.TestItem[] = [];
+	for (const [_, rootItem] of controller.items) {
+		if (rootItem.uri?.toString() === buildDirUri.toString()) {
+			rootItems.push(rootItem);
+		}
+	}
+	return rootItems;
+}
+
 /**
  * Load tests from build dir
  *
  * @param controller Test controller
  * @param workspaceFolder Workspace folder
  * @param buildDirUri Build dir URI
+ * @param preset Test preset (optional)
  */
 async function loadTestsFromBuildDir(
 	controller: vscode.TestController,
 	workspaceFolder: vscode.WorkspaceFolder,
-	buildDirUri: vscode.Uri
+	buildDirUri: vscode.Uri,
+	preset?: CmakeTestPreset
 ) {
 	// Get & substitute config settings
 	const [
-		buildConfig,
+		buildConfigSetting,
 		extraCtestLoadArgs,
 		suiteDelimiter,
 		testFileVar,
@@ -155,6 +757,12 @@ async function loadTestsFromBuildDir(
 		'testFileVar',
 		'testLineVar',
 	]);
+	const buildConfig = preset ? preset.configuration : buildConfigSetting;
+	const testGrouping =
+		getWorkspaceConfiguration(workspaceFolder).get<TestGrouping>(
+			'testGrouping'
+		) || 'none';
+	const transport = await getWorkspaceRemoteTransport(workspaceFolder);
 
 	// Resolve CTest path
 	const buildDir = buildDirUri.fsPath;
@@ -169,305 +777,2031 @@ async function loadTestsFromBuildDir(
 		throw e;
 	}
 
-	// Load CTest test list
-	const cmakeTests = await loadCmakeTests(
-		ctestPath,
-		buildDir,
-		buildConfig,
-		extraCtestLoadArgs
-	);
+	// Ask CMake for the codemodel on next configure, if not already done by
+	// other clients
+	try {
+		writeCodemodelQuery(buildDir);
+	} catch (e) {
+		// Build dir may be read-only, the codemodel is optional
+	}
 
-	// Create root test item for build dir
-	const rootId = buildDirUri.toString();
-	const label = vscode.workspace.asRelativePath(buildDir, true);
-	const rootItem = controller.createTestItem(rootId, label, buildDirUri);
-	rootItemDataMap.set(rootItem, { workspaceFolder });
-	controller.items.add(rootItem);
-
-	cmakeTests.forEach((test) => {
-		const testId = test.name;
-		let testUri: vscode.Uri | undefined;
-		let testRange: vscode.Range | undefined;
-		if (testFileVar) {
-			const testFileInfo = getTestFileInfo(
-				test,
-				testFileVar,
-				testLineVar
-			);
-			if (testFileInfo.file) {
-				// Ensure paths are absolute
-				testUri = vscode.Uri.file(
-					path.resolve(workspaceFolder.uri.fsPath, testFileInfo.file)
+	// Multi-config generators get one root per configuration, except with
+	// test presets that select their own
+	const configurations =
+		!preset &&
+		getWorkspaceConfiguration(workspaceFolder).get<boolean>(
+			'multiConfigRoots'
+		)
+			? getCmakeConfigurationTypes(buildDir)
+			: [];
+	const roots = configurations.length
+		? configurations.map((configuration) => ({
+				rootId: getRootId(buildDirUri, configuration),
+				configuration,
+			}))
+		: [{ rootId: getRootId(buildDirUri), configuration: undefined }];
+
+	// Remove obsolete roots, e.g. when switching generators
+	for (const rootItem of getBuildDirRootItems(controller, buildDirUri)) {
+		if (roots.some(({ rootId }) => rootId === rootItem.id)) continue;
+		controller.items.delete(rootItem.id);
+		testDiagnostics?.clear(rootItem.id);
+		testHistory?.prune(rootItem.id, []);
+	}
+
+	for (const { rootId, configuration } of roots) {
+		// Load CTest test list
+		const cmakeTests = await loadCmakeTests(
+			ctestPath,
+			buildDir,
+			configuration ?? buildConfig,
+			extraCtestLoadArgs,
+			preset,
+			transport
+		);
+
+		// Create root test item for build dir, diagnostics of previous tests
+		// are obsolete
+		testDiagnostics?.clear(rootId);
+		const label = vscode.workspace.asRelativePath(buildDir, true);
+		const rootItem = controller.createTestItem(rootId, label, buildDirUri);
+		rootItem.description = configuration ?? preset?.displayName;
+		const codemodel = readCmakeCodemodel(
+			buildDir,
+			configuration ?? buildConfig
+		);
+		rootItemDataMap.set(rootItem, {
+			workspaceFolder,
+			preset,
+			buildConfig: configuration,
+			codemodel:
+				codemodel && transport
+					? toLocalCmakeCodemodel(codemodel, transport)
+					: codemodel,
+			transport,
+		});
+		controller.items.add(rootItem);
+
+		const testItems: [CmakeTestInfo, vscode.TestItem][] = [];
+		cmakeTests.forEach((test) => {
+			const testId = test.name;
+			let testUri: vscode.Uri | undefined;
+			let testRange: vscode.Range | undefined;
+			if (testFileVar) {
+				const testFileInfo = getTestFileInfo(
+					test,
+					testFileVar,
+					testLineVar
 				);
-				if (!isNaN(testFileInfo.line)) {
-					// Convert to 0-based line number
-					const zeroBasedLine = testFileInfo.line - 1;
-					testRange = new vscode.Range(
-						zeroBasedLine,
-						0,
-						zeroBasedLine,
-						0
+				if (testFileInfo.file) {
+					// Ensure paths are absolute
+					testUri = vscode.Uri.file(
+						path.resolve(
+							workspaceFolder.uri.fsPath,
+							testFileInfo.file
+						)
 					);
+					if (!isNaN(testFileInfo.line)) {
+						// Convert to 0-based line number
+						const zeroBasedLine = testFileInfo.line - 1;
+						testRange = new vscode.Range(
+							zeroBasedLine,
+							0,
+							zeroBasedLine,
+							0
+						);
+					}
 				}
 			}
-		}
-		let parentItem = rootItem;
-		let testName = test.name;
-		if (suiteDelimiter) {
-			const testPath = test.name.split(suiteDelimiter);
-			testName = testPath[testPath.length - 1];
-			for (let level = 0; level < testPath.length - 1; level++) {
-				const levelName = testPath[level];
-				const levelId = levelName;
-				let levelItem = parentItem.children.get(levelId);
-				if (!levelItem) {
-					levelItem = controller.createTestItem(levelId, levelName);
-					parentItem.children.add(levelItem);
+			if (!testUri) {
+				// Default to the location of the add_test call
+				const location = getCmakeTestLocation(test);
+				if (location) {
+					testUri = vscode.Uri.file(
+						path.resolve(workspaceFolder.uri.fsPath, location.file)
+					);
+					if (location.line) {
+						// Convert to 0-based line number
+						const zeroBasedLine = location.line - 1;
+						testRange = new vscode.Range(
+							zeroBasedLine,
+							0,
+							zeroBasedLine,
+							0
+						);
+					}
+				}
+			}
+			const target =
+				codemodel && findCmakeTestTarget(test, codemodel.targets);
+			let parentItem = getTestGroupItem(
+				controller,
+				rootItem,
+				testGrouping,
+				target,
+				codemodel
+			);
+			let testName = test.name;
+			if (suiteDelimiter) {
+				const testPath = test.name.split(suiteDelimiter);
+				testName = testPath[testPath.length - 1];
+				for (let level = 0; level < testPath.length - 1; level++) {
+					const levelName = testPath[level];
+					const levelId = levelName;
+					let levelItem = parentItem.children.get(levelId);
+					if (!levelItem) {
+						levelItem = controller.createTestItem(
+							levelId,
+							levelName
+						);
+						parentItem.children.add(levelItem);
+					}
+					parentItem = levelItem;
 				}
-				parentItem = levelItem;
+			}
+			const testItem = controller.createTestItem(
+				testId,
+				testName,
+				testUri
+			);
+			testItem.range = testRange;
+			testItem.tags = getCmakeTestLabels(test).map(
+				(label) => new vscode.TestTag(label)
+			);
+			parentItem.children.add(testItem);
+			if (target) targetMap.set(testItem, target);
+			fixturesMap.set(testItem, getCmakeTestFixtures(test));
+			updateFlakyState(testItem);
+			testItems.push([test, testItem]);
+		});
+
+		// Discover GoogleTest cases if enabled; executables can't run
+		// locally with remote transports
+		if (
+			!transport &&
+			getWorkspaceConfiguration(workspaceFolder).get<boolean>(
+				'gtestDiscovery'
+			)
+		) {
+			for (const [test, testItem] of testItems) {
+				await loadGtestCases(controller, test, testItem, buildDir);
 			}
 		}
-		const testItem = controller.createTestItem(testId, testName, testUri);
-		testItem.range = testRange;
-		parentItem.children.add(testItem);
-	});
+
+		// Forget history of removed tests
+		testHistory?.prune(rootId, getTestKeys(rootItem));
+	}
+	await testHistory?.save();
 }
 
 /**
- * Run tests
+ * Get group item of a test, created on demand
  *
  * @param controller Test controller
- * @param request Test run request
- * @param token Cancellation token
+ * @param rootItem Root item of the test
+ * @param grouping Test grouping mode
+ * @param target CMake target of the test, if known
+ * @param codemodel CMake codemodel, if any
+ *
+ * @return Group item, or root item if the test has no group
  */
-async function runTests(
+function getTestGroupItem(
 	controller: vscode.TestController,
-	request: vscode.TestRunRequest,
-	token: vscode.CancellationToken
+	rootItem: vscode.TestItem,
+	grouping: TestGrouping,
+	target?: CmakeTarget,
+	codemodel?: CmakeCodemodel
 ) {
-	// Create a test run to record results
-	const run = controller.createTestRun(request);
-	try {
-		if (!request.include) {
-			// Run all tests - collect all root items (one per CMakeCache.txt)
-			for (const [_, rootItem] of controller.items) {
-				await runTestsForRoot(run, rootItem, token);
-			}
-		} else {
-			// Collect test items grouped by root
-			const itemsByRoot = collectTestItemsByRoot(request.include);
-
-			// Run each group
-			for (const [root, tests] of itemsByRoot) {
-				await runTestsForRoot(run, root, token, tests);
+	if (!target || !codemodel || grouping === 'none') return rootItem;
+
+	let groupId: string;
+	let groupLabel: string;
+	let groupUri: vscode.Uri | undefined;
+	let groupRange: vscode.Range | undefined;
+	if (grouping === 'target') {
+		groupId = `target:${target.name}`;
+		groupLabel = target.name;
+		if (target.definition) {
+			groupUri = vscode.Uri.file(target.definition.file);
+			if (target.definition.line) {
+				// Convert to 0-based line number
+				const zeroBasedLine = target.definition.line - 1;
+				groupRange = new vscode.Range(
+					zeroBasedLine,
+					0,
+					zeroBasedLine,
+					0
+				);
 			}
 		}
-	} finally {
-		run.end();
+	} else {
+		const directory =
+			path.relative(codemodel.sourceDir, target.sourceDir) || '.';
+		groupId = `directory:${directory}`;
+		groupLabel = directory;
+		groupUri = vscode.Uri.file(
+			path.join(target.sourceDir, 'CMakeLists.txt')
+		);
+	}
+
+	let groupItem = rootItem.children.get(groupId);
+	if (!groupItem) {
+		groupItem = controller.createTestItem(groupId, groupLabel, groupUri);
+		groupItem.range = groupRange;
+		if (grouping === 'target') targetMap.set(groupItem, target);
+		rootItem.children.add(groupItem);
+	}
+	return groupItem;
+}
+
+/**
+ * Open the definition of the CMake target of a test item
+ *
+ * @param item Test item, group item or GoogleTest case item
+ */
+async function goToTargetDefinition(item: vscode.TestItem) {
+	let targetItem: vscode.TestItem | undefined = item;
+	while (targetItem && !targetMap.has(targetItem)) {
+		targetItem = targetItem.parent;
+	}
+	const definition = targetItem && targetMap.get(targetItem)?.definition;
+	if (!definition) {
+		await vscode.window.showInformationMessage(
+			`No CMake target definition found for ${item.label}`
+		);
+		return;
+	}
+
+	// Convert to 0-based line number
+	const position = new vscode.Position((definition.line || 1) - 1, 0);
+	await vscode.window.showTextDocument(vscode.Uri.file(definition.file), {
+		selection: new vscode.Range(position, position),
+	});
+}
+
+/**
+ * Load GoogleTest cases as children of a CMake test item
+ *
+ * @param controller Test controller
+ * @param test CMake test info
+ * @param testItem CMake test item
+ * @param buildDir CMake build directory
+ */
+async function loadGtestCases(
+	controller: vscode.TestController,
+	test: CmakeTestInfo,
+	testItem: vscode.TestItem,
+	buildDir: string
+) {
+	if (!(await isGtestExecutable(test))) return;
+	const labelTags = testItem.tags.filter((tag) => tag.id !== FLAKY_TAG.id);
+
+	let suites;
+	try {
+		suites = await listGtestCases(
+			test,
+			getGtestWorkingDirectory(test, buildDir)
+		);
+	} catch (e) {
+		testItem.error = `Cannot list GoogleTest cases: ${e}`;
+		return;
+	}
+	for (const suite of suites) {
+		const suiteItem = controller.createTestItem(
+			suite.name,
+			suite.name,
+			testItem.uri
+		);
+		suiteItem.tags = labelTags;
+		for (const testCase of suite.cases) {
+			const caseItem = controller.createTestItem(
+				getGtestCaseName(suite.name, testCase),
+				testCase,
+				testItem.uri
+			);
+			caseItem.tags = labelTags;
+			gtestItemDataMap.set(caseItem, { testName: test.name });
+			suiteItem.children.add(caseItem);
+		}
+		testItem.children.add(suiteItem);
+		suiteItem.children.forEach(updateFlakyState);
+	}
+}
+
+/**
+ * Run tests
+ *
+ * @param controller Test controller
+ * @param request Test run request
+ * @param token Cancellation token
+ * @param profileOptions Run options specific to the run profile
+ */
+async function runTests(
+	controller: vscode.TestController,
+	request: vscode.TestRunRequest,
+	token: vscode.CancellationToken,
+	profileOptions: Partial<CmakeTestRunOptions> = {}
+) {
+	// Create a test run to record results
+	const run = controller.createTestRun(request);
+	try {
+		if (!request.include) {
+			// Run all tests - collect all root items (one per CMakeCache.txt and
+			// configuration)
+			for (const [_, rootItem] of controller.items) {
+				await runTestsForRoot(
+					run,
+					rootItem,
+					token,
+					undefined,
+					profileOptions
+				);
+			}
+		} else {
+			// Collect test items grouped by root
+			const itemsByRoot = collectTestItemsByRoot(request.include);
+
+			// Run each group
+			for (const [root, tests] of itemsByRoot) {
+				await runTestsForRoot(run, root, token, tests, profileOptions);
+			}
+		}
+	} catch (e) {
+		run.appendOutput(`Error running tests: ${e}\r\n`);
+	} finally {
+		run.end();
+		await testHistory?.save();
+	}
+}
+
+/**
+ * Run tests affected by files changed in Git working trees
+ *
+ * @param controller Test controller
+ * @param request Test run request
+ * @param token Cancellation token
+ */
+async function runChangedTests(
+	controller: vscode.TestController,
+	request: vscode.TestRunRequest,
+	token: vscode.CancellationToken
+) {
+	// Workspace folders outside Git working trees have no changes
+	const files = new Set<string>();
+	for (const workspaceFolder of vscode.workspace.workspaceFolders || []) {
+		try {
+			for (const file of await getGitChangedFiles(
+				workspaceFolder.uri.fsPath
+			)) {
+				files.add(file);
+			}
+		} catch (e) {
+			continue;
+		}
+	}
+	if (!files.size) {
+		await vscode.window.showInformationMessage(
+			'No changed files found in Git working trees'
+		);
+		return;
+	}
+
+	await runAffectedTests(controller, request, token, [...files]);
+}
+
+/**
+ * Run tests affected by saved files until cancelled
+ *
+ * Files saved during a run are processed once it ends.
+ *
+ * @param controller Test controller
+ * @param request Continuous test run request
+ * @param token Cancellation token
+ */
+function watchAffectedTests(
+	controller: vscode.TestController,
+	request: vscode.TestRunRequest,
+	token: vscode.CancellationToken
+) {
+	return new Promise<void>((resolve) => {
+		let savedFiles = new Set<string>();
+		let running = false;
+		const runSavedFiles = async () => {
+			if (running) return;
+			running = true;
+			try {
+				while (savedFiles.size && !token.isCancellationRequested) {
+					const files = [...savedFiles];
+					savedFiles = new Set<string>();
+					try {
+						await runAffectedTests(
+							controller,
+							request,
+							token,
+							files
+						);
+					} catch (e) {
+						// Keep watching after errors
+						vscode.window.showErrorMessage(
+							`Error running affected tests: ${e}`
+						);
+					}
+				}
+			} finally {
+				running = false;
+			}
+		};
+
+		const listener = vscode.workspace.onDidSaveTextDocument((document) => {
+			if (document.uri.scheme !== 'file') return;
+			savedFiles.add(document.uri.fsPath);
+			runSavedFiles();
+		});
+		token.onCancellationRequested(() => {
+			listener.dispose();
+			resolve();
+		});
+	});
+}
+
+/**
+ * Run tests affected by changed files
+ *
+ * @param controller Test controller
+ * @param request Test run request
+ * @param token Cancellation token
+ * @param files Absolute paths of changed files
+ */
+async function runAffectedTests(
+	controller: vscode.TestController,
+	request: vscode.TestRunRequest,
+	token: vscode.CancellationToken,
+	files: string[]
+) {
+	// Create a test run to record results
+	const run = controller.createTestRun(request);
+	try {
+		const itemsByRoot = collectRequestItemsByRoot(controller, request);
+		let affected = 0;
+		for (const [root, tests] of itemsByRoot) {
+			let testsToRun: vscode.TestItem[];
+			try {
+				testsToRun = await getAffectedTestItems(root, tests, files);
+			} catch (e) {
+				run.appendOutput(
+					`Error getting affected tests in ${root.label}: ${e}\r\n`
+				);
+				continue;
+			}
+			if (!testsToRun.length) continue;
+			affected += testsToRun.length;
+			await runTestsForRoot(run, root, token, testsToRun);
+		}
+		if (!affected) {
+			run.appendOutput(
+				`No tests affected by changed files:\r\n${files.join('\r\n')}\r\n`
+			);
+		}
+	} finally {
+		run.end();
+		await testHistory?.save();
+	}
+}
+
+/**
+ * Get test items affected by changed files
+ *
+ * @param root Root test item
+ * @param tests Leaf test items to filter
+ * @param files Absolute paths of changed files
+ *
+ * @return Affected test items
+ */
+async function getAffectedTestItems(
+	root: vscode.TestItem,
+	tests: vscode.TestItem[],
+	files: string[]
+) {
+	const rootItemData = rootItemDataMap.get(root);
+	if (!root.uri || !rootItemData) return [];
+
+	const cwd = root.uri.fsPath;
+	const allTests = await loadRootCmakeTests(cwd, rootItemData);
+	const affectedNames = new Set(
+		getAffectedCmakeTests(allTests, files, cwd, rootItemData.codemodel).map(
+			({ name }) => name
+		)
+	);
+	return tests.filter((test) => affectedNames.has(getCmakeTestName(test)));
+}
+
+/**
+ * Rerun tests when their executables are rebuilt, until cancelled
+ *
+ * Reruns are debounced, and a run in progress is cancelled and restarted when
+ * new executables land. Builds of the CMake Tools extension rerun all tests
+ * of their workspace folder.
+ *
+ * @param controller Test controller
+ * @param request Continuous test run request
+ * @param token Cancellation token
+ */
+async function watchTests(
+	controller: vscode.TestController,
+	request: vscode.TestRunRequest,
+	token: vscode.CancellationToken
+) {
+	const itemsByRoot = collectRequestItemsByRoot(controller, request);
+
+	let pendingItems = new Set<vscode.TestItem>();
+	let runningItems: vscode.TestItem[] = [];
+	let runTokenSource: vscode.CancellationTokenSource | undefined;
+	let timer: NodeJS.Timeout | undefined;
+	const runPendingItems = async () => {
+		while (pendingItems.size && !token.isCancellationRequested) {
+			runningItems = [...pendingItems];
+			pendingItems = new Set<vscode.TestItem>();
+			runTokenSource = new vscode.CancellationTokenSource();
+			const cancellation = token.onCancellationRequested(() =>
+				runTokenSource?.cancel()
+			);
+			try {
+				await runTests(
+					controller,
+					new vscode.TestRunRequest(
+						runningItems,
+						request.exclude,
+						request.profile,
+						true
+					),
+					runTokenSource.token
+				);
+			} catch (e) {
+				// Keep watching after errors
+				vscode.window.showErrorMessage(`Error running tests: ${e}`);
+			} finally {
+				cancellation.dispose();
+				runTokenSource.dispose();
+				runTokenSource = undefined;
+			}
+		}
+	};
+	const scheduleRun = (items: vscode.TestItem[]) => {
+		items.forEach((item) => pendingItems.add(item));
+		if (timer) clearTimeout(timer);
+		timer = setTimeout(() => {
+			timer = undefined;
+			if (runTokenSource) {
+				// Restart the run in progress with the new tests
+				runningItems.forEach((item) => pendingItems.add(item));
+				runTokenSource.cancel();
+			} else {
+				runPendingItems();
+			}
+		}, CONTINUOUS_RUN_DELAY);
+	};
+
+	// Listen to cancellation first, as getting executables takes time
+	const cancelled = new Promise<void>((resolve) => {
+		if (token.isCancellationRequested) resolve();
+		token.onCancellationRequested(() => resolve());
+	});
+
+	const disposables: vscode.Disposable[] = [];
+	for (const [root, tests] of itemsByRoot) {
+		if (token.isCancellationRequested) break;
+		const rootItemData = rootItemDataMap.get(root);
+		if (!root.uri || !rootItemData) continue;
+
+		try {
+			for (const [executable, items] of await getTestExecutables(
+				root.uri.fsPath,
+				rootItemData,
+				tests
+			)) {
+				const watcher = vscode.workspace.createFileSystemWatcher(
+					new vscode.RelativePattern(
+						vscode.Uri.file(path.dirname(executable)),
+						path.basename(executable)
+					)
+				);
+				disposables.push(
+					watcher,
+					watcher.onDidCreate(() => scheduleRun(items)),
+					watcher.onDidChange(() => scheduleRun(items))
+				);
+			}
+		} catch (e) {
+			vscode.window.showErrorMessage(
+				`Error watching test executables in ${root.label}: ${e}`
+			);
+		}
+
+		const cmakeIntegration = getWorkspaceConfiguration(
+			rootItemData.workspaceFolder
+		).get('cmakeIntegration');
+		if (cmakeIntegration === 'true' || cmakeIntegration === true) {
+			disposables.push(
+				vscode.tasks.onDidEndTask(({ execution: { task } }) => {
+					if (
+						task.definition.type === 'cmake' &&
+						task.scope === rootItemData.workspaceFolder
+					) {
+						scheduleRun(tests);
+					}
+				})
+			);
+		}
+	}
+
+	await cancelled;
+	if (timer) clearTimeout(timer);
+	disposables.forEach((disposable) => disposable.dispose());
+}
+
+/**
+ * Get executables run by test items
+ *
+ * Executables are the artifacts of test targets if known, else the programs
+ * of test commands.
+ *
+ * @param cwd CMake build directory
+ * @param rootItemData Root item data of the tests
+ * @param tests Leaf test items
+ *
+ * @return Test items by executable path
+ */
+async function getTestExecutables(
+	cwd: string,
+	rootItemData: RootItemData,
+	tests: vscode.TestItem[]
+) {
+	const allTests = await loadRootCmakeTests(cwd, rootItemData);
+	const { codemodel } = rootItemData;
+	const executables = new Map<string, vscode.TestItem[]>();
+	for (const item of tests) {
+		const test = allTests.find(
+			({ name }) => name === getCmakeTestName(item)
+		);
+		if (!test) continue;
+
+		const target =
+			codemodel && findCmakeTestTarget(test, codemodel.targets);
+		const [program] = test.command;
+		const files = target
+			? target.artifacts
+			: program && path.isAbsolute(program)
+				? [program]
+				: [];
+		for (const file of files) {
+			const items = executables.get(file) || [];
+			items.push(item);
+			executables.set(file, items);
+		}
+	}
+	return executables;
+}
+
+/**
+ * Load all CMake tests of a root item
+ *
+ * Note: test presets may filter tests, so load the full list without it
+ *
+ * @param cwd CMake build directory
+ * @param rootItemData Root item data
+ */
+async function loadRootCmakeTests(cwd: string, rootItemData: RootItemData) {
+	return loadCmakeTests(
+		getCtestPath(cwd),
+		cwd,
+		await getRootBuildConfig(rootItemData),
+		'',
+		undefined,
+		rootItemData.transport
+	);
+}
+
+/**
+ * Run tests and collect code coverage
+ *
+ * @param controller Test controller
+ * @param request Test run request
+ * @param token Cancellation token
+ */
+async function runTestsWithCoverage(
+	controller: vscode.TestController,
+	request: vscode.TestRunRequest,
+	token: vscode.CancellationToken
+) {
+	// Create a test run to record results
+	const run = controller.createTestRun(request);
+	try {
+		if (!request.include) {
+			// Run all tests - collect all root items (one per CMakeCache.txt and
+			// configuration)
+			for (const [_, rootItem] of controller.items) {
+				await runCoverageForRoot(run, rootItem, token);
+			}
+		} else {
+			// Collect test items grouped by root
+			const itemsByRoot = collectTestItemsByRoot(request.include);
+
+			// Run each group
+			for (const [root, tests] of itemsByRoot) {
+				await runCoverageForRoot(run, root, token, tests);
+			}
+		}
+	} finally {
+		run.end();
+		await testHistory?.save();
+	}
+}
+
+/**
+ * Run tests for root item and collect code coverage
+ *
+ * Coverage data is read from the lcov file given in the settings if any, else
+ * from gcov data files in the build dir. Gcov coverage is collected per test,
+ * so CTest tests run one at a time with counters reset in between; GoogleTest
+ * cases share the coverage of their CTest test.
+ *
+ * @param run Test run
+ * @param root Root test item
+ * @param token Cancellation token
+ * @param testsToRun Optional list of tests to run
+ */
+async function runCoverageForRoot(
+	run: vscode.TestRun,
+	root: vscode.TestItem,
+	token: vscode.CancellationToken,
+	testsToRun?: vscode.TestItem[]
+) {
+	const rootItemData = rootItemDataMap.get(root);
+	if (!rootItemData || !root.uri) return;
+	const { workspaceFolder } = rootItemData;
+
+	// Get coverage settings
+	const buildDir = root.uri.fsPath;
+	const [gcovPath, coverageInfoFile] = await getConfigStrings(
+		workspaceFolder,
+		['gcovPath', 'coverageInfoFile']
+	);
+	const collectCoverage = async () =>
+		coverageInfoFile
+			? parseLcovFile(path.resolve(buildDir, coverageInfoFile))
+			: collectGcovCoverage(gcovPath || 'gcov', buildDir);
+
+	const coverage: CoverageData = new Map();
+	const testCoverage = new Map<vscode.TestItem, CoverageData>();
+	try {
+		if (coverageInfoFile) {
+			await runTestsForRoot(run, root, token, testsToRun);
+			mergeCoverageData(coverage, await collectCoverage());
+		} else {
+			// Run CTest tests one at a time, regardless of parallel jobs
+			const itemsByTest = new Map<string, vscode.TestItem[]>();
+			for (const test of testsToRun || collectTestItems(root)) {
+				const testName = getCmakeTestName(test);
+				const items = itemsByTest.get(testName) || [];
+				items.push(test);
+				itemsByTest.set(testName, items);
+			}
+			for (const items of itemsByTest.values()) {
+				if (token.isCancellationRequested) break;
+				await resetGcovCounters(buildDir);
+				await runTestsForRoot(run, root, token, items);
+				const data = await collectCoverage();
+				items.forEach((test) => testCoverage.set(test, data));
+				mergeCoverageData(coverage, data);
+			}
+		}
+	} catch (e) {
+		run.appendOutput(`Error collecting coverage: ${e}\r\n`);
+		return;
+	}
+
+	// Report coverage for workspace files
+	for (const [file, lines] of coverage) {
+		const relativePath = path.relative(workspaceFolder.uri.fsPath, file);
+		if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+			continue;
+		}
+
+		const testLines = new Map<vscode.TestItem, Map<number, number>>();
+		for (const [test, data] of testCoverage) {
+			const lines = data.get(file);
+			if (lines && [...lines.values()].some((count) => count > 0)) {
+				testLines.set(test, lines);
+			}
+		}
+		const covered = [...lines.values()].filter((count) => count > 0);
+		const fileCoverage = new vscode.FileCoverage(
+			vscode.Uri.file(file),
+			new vscode.TestCoverageCount(covered.length, lines.size),
+			undefined,
+			undefined,
+			testCoverage.size ? [...testLines.keys()] : undefined
+		);
+		fileCoverageDataMap.set(fileCoverage, { lines, testLines });
+		run.addCoverage(fileCoverage);
+	}
+}
+
+/**
+ * Get detailed line coverage for file
+ *
+ * @param fileCoverage File coverage
+ * @param test Test item to get coverage for (optional)
+ *
+ * @return Statement coverage for each line
+ */
+function getDetailedCoverage(
+	fileCoverage: vscode.FileCoverage,
+	test?: vscode.TestItem
+) {
+	const data = fileCoverageDataMap.get(fileCoverage);
+	const lines = test ? data?.testLines.get(test) : data?.lines;
+	if (!lines) return [];
+
+	return [...lines].map(
+		([line, count]) =>
+			new vscode.StatementCoverage(
+				count,
+				new vscode.Position(line - 1, 0)
+			)
+	);
+}
+
+/**
+ * Utility to buffer test outputs.
+ *
+ * This dramatically improves performances with large test suites, as
+ * TestRun.appendOutput is quite slow.
+ */
+class TestRunOutput {
+	constructor(private run: vscode.TestRun) {}
+	private outputBuffers = new Map<
+		vscode.TestItem,
+		{
+			lines: string[];
+			timer?: NodeJS.Timeout;
+		}
+	>();
+
+	appendLine(testItem: vscode.TestItem, line: string) {
+		let buffer = this.outputBuffers.get(testItem);
+		if (!buffer) {
+			buffer = { lines: [] };
+			this.outputBuffers.set(testItem, buffer);
+		}
+		buffer.lines.push(line);
+		if (!buffer.timer) {
+			buffer.timer = setTimeout(this.flushItem.bind(this), 100, testItem);
+		}
+	}
+	flushItem(testItem: vscode.TestItem) {
+		let buffer = this.outputBuffers.get(testItem);
+		if (!buffer) return;
+		if (buffer.lines.length > 0) {
+			this.run.appendOutput(
+				buffer.lines.join('\r\n'),
+				undefined,
+				testItem
+			);
+			buffer.lines.length = 0;
+		}
+		if (buffer.timer) {
+			clearTimeout(buffer.timer);
+			buffer.timer = undefined;
+		}
+	}
+	flushAll() {
+		for (const testItem of this.outputBuffers.keys()) {
+			this.flushItem(testItem);
+		}
+	}
+}
+
+/**
+ * Run tests for root item
+ *
+ * @param run Test run
+ * @param root Root test item
+ * @param token Cancellation token
+ * @param testsToRun Optional list of tests to run
+ * @param profileOptions Run options specific to the run profile
+ */
+async function runTestsForRoot(
+	run: vscode.TestRun,
+	root: vscode.TestItem,
+	token: vscode.CancellationToken,
+	testsToRun?: vscode.TestItem[],
+	profileOptions: Partial<CmakeTestRunOptions> = {}
+) {
+	if (!root.uri) return; // Should never happen
+
+	const output = new TestRunOutput(run);
+	try {
+		const rootItemData = rootItemDataMap.get(root);
+		if (!rootItemData) return;
+		const { workspaceFolder } = rootItemData;
+
+		// Get options including CTest path, config, env vars, etc.
+		const cwd = root.uri.fsPath;
+		const ctestPath = getCtestPath(cwd);
+		const options = {
+			...(await getRunOptions(ctestPath, cwd, rootItemData)),
+			...profileOptions,
+		};
+
+		// Get error matchers from settings
+		const errorMatchers = await getWorkspaceErrorMatchers(workspaceFolder);
+
+		// Map test items to their indexes
+		// Note: test presets may filter tests, so load the full list without it
+		const allTests = await loadCmakeTests(
+			ctestPath,
+			cwd,
+			options.buildConfig,
+			'',
+			undefined,
+			options.transport
+		);
+		const leafItems = (testsToRun || collectTestItems(root)).filter(
+			(test) =>
+				matchCmakeTestLabels(
+					test.tags
+						.map((tag) => tag.id)
+						.filter((id) => id !== FLAKY_TAG.id),
+					options.includeLabels,
+					options.excludeLabels
+				)
+		);
+		const { ctestItems, gtestItems } = splitGtestCaseItems(leafItems);
+		const indexToItem = new Map<number, vscode.TestItem>();
+		const testIndexes = ctestItems.map((test) => {
+			const index = allTests.findIndex((t) => t.name === test.id) + 1;
+			if (index > 0) {
+				indexToItem.set(index, test);
+			}
+			return index;
+		});
+
+		// CTest adds setup & cleanup tests of required fixtures, report them too
+		if (testsToRun) {
+			const { setup, cleanup } = getCmakeFixtureTests(
+				allTests,
+				allTests.filter((_, index) => indexToItem.has(index + 1))
+			);
+			const rootItems = collectTestItems(root).filter(
+				(item) => !gtestItemDataMap.has(item)
+			);
+			for (const test of [...setup, ...cleanup]) {
+				const item = rootItems.find((item) => item.id === test.name);
+				if (item) indexToItem.set(allTests.indexOf(test) + 1, item);
+			}
+		}
+
+		// Build test targets first if enabled
+		if (
+			getWorkspaceConfiguration(workspaceFolder).get<boolean>(
+				'buildBeforeRun'
+			)
+		) {
+			const buildErrors = await buildTestTargets(
+				run,
+				options,
+				testsToRun &&
+					allTests.filter((test) =>
+						leafItems.some(
+							(item) => getCmakeTestName(item) === test.name
+						)
+					),
+				errorMatchers,
+				token,
+				rootItemData.codemodel
+			);
+			if (buildErrors) {
+				for (const test of leafItems) {
+					run.errored(test, buildErrors);
+				}
+				return;
+			}
+		}
+		if (token.isCancellationRequested) return;
+
+		// Run GoogleTest cases directly
+		await runGtestCases(run, output, allTests, gtestItems, options, token);
+		if (!ctestItems.length) return;
+
+		// Schedule and run tests
+		if (options.memcheck) {
+			removeMemcheckLogFiles(cwd, [...indexToItem.keys()]);
+		}
+		const testProcess = scheduleCmakeTestProcess(testIndexes, options);
+
+		// Handle cancellation
+		token.onCancellationRequested(() => {
+			cancelCmakeTestProcess(testProcess);
+			output.flushAll();
+		});
+
+		// Run tests and collect output
+		const iterationOutputs = new Map<number, string[]>();
+		const endedItems = new Set<vscode.TestItem>();
+
+		const onEvent = (event: CmakeTestEvent) => {
+			const testItem = indexToItem.get(event.index);
+			if (!testItem) return;
+
+			switch (event.type) {
+				case 'start': {
+					run.started(testItem);
+					getGtestCaseItems(testItem).forEach((item) =>
+						run.started(item)
+					);
+
+					// Only keep output of the last iteration
+					iterationOutputs.set(event.index, []);
+					break;
+				}
+
+				case 'output': {
+					output.appendLine(testItem, event.line);
+					iterationOutputs
+						.get(event.index)
+						?.push(event.text ?? event.line);
+					break;
+				}
+
+				case 'end': {
+					// Provisional results only update test states until final
+					// results arrive
+					if (event.provisional) {
+						reportProvisionalResult(run, testItem, event);
+						break;
+					}
+
+					output.flushItem(testItem);
+
+					// Full output supersedes streamed output lines
+					const lines =
+						event.output?.split(/\r?\n/) ??
+						iterationOutputs.get(event.index) ??
+						[];
+
+					// Parse errors, except those already reported as assertion
+					// diffs
+					const diffs = parseAssertionDiffs(lines);
+					const testDecorations = matchErrors(lines, errorMatchers)
+						.filter(
+							(error) =>
+								!diffs.some(
+									(diff) =>
+										!!diff.file &&
+										diff.line === error.line &&
+										path.resolve(cwd, diff.file) ===
+											path.resolve(cwd, error.file)
+								)
+						)
+						.map((error) => getErrorMatchMessage(error, cwd));
+
+					// Memory defects fail tests regardless of their exit code
+					let state = event.state;
+					if (options.memcheck && state !== 'skipped') {
+						const defects = readMemcheckLogFile(
+							cwd,
+							event.index,
+							options.transport
+						);
+						if (defects.length) {
+							state = 'failed';
+							testDecorations.push(
+								...defects.map((defect) =>
+									getStackTraceMessage(defect, cwd)
+								)
+							);
+						}
+					}
+
+					// Explain results decided by pass/fail criteria, unless
+					// memory defects failed the test; passed & skipped tests
+					// don't take messages so explain in output at the same
+					// location
+					const cmakeTest = allTests[event.index - 1];
+					const explanation =
+						cmakeTest &&
+						state === event.state &&
+						(event.reason === undefined ||
+							event.reason === 'failed' ||
+							event.reason === 'skipped')
+							? explainCmakeTestResult(
+									getCmakeTestCriteria(cmakeTest),
+									state,
+									lines
+								)
+							: undefined;
+					if (explanation) {
+						const message = getCriteriaExplanationMessage(
+							explanation,
+							testItem,
+							errorMatchers,
+							cwd
+						);
+						if (state === 'failed') {
+							testDecorations.unshift(message);
+						} else {
+							const text = `${message.message}\n`;
+							run.appendOutput(
+								text.replace(/\n/g, '\r\n'),
+								message.location,
+								testItem
+							);
+						}
+					}
+
+					// Report assertion diffs, stack traces & sanitizer reports of
+					// failed tests
+					if (state === 'failed') {
+						testDecorations.push(
+							...diffs.map((diff) =>
+								getAssertionDiffMessage(diff, cwd)
+							),
+							...parseStackTraces(lines).map((report) =>
+								getStackTraceMessage(report, cwd)
+							)
+						);
+					}
+
+					// Report iteration of repeated tests with failing output
+					if (options.repeat && event.iteration) {
+						run.appendOutput(
+							`Test ${event.name} ${state} on iteration ${event.iteration}\r\n`,
+							undefined,
+							testItem
+						);
+						if (state === 'failed') {
+							const iterationOutput =
+								event.output ??
+								iterationOutputs.get(event.index)?.join('\n');
+							testDecorations.unshift(
+								new vscode.TestMessage(
+									`Failed on iteration ${event.iteration}:\n${iterationOutput}`
+								)
+							);
+						}
+					}
+
+					// Map results of GoogleTest cases from the streamed output,
+					// as full output may be truncated
+					const caseItems = getGtestCaseItems(testItem);
+					if (caseItems.length) {
+						const nameToItem = new Map(
+							caseItems.map((item) => [item.id, item])
+						);
+						reportGtestCaseResults(
+							run,
+							nameToItem,
+							parseGtestOutput(
+								iterationOutputs.get(event.index) ?? lines,
+								cmakeTest
+									? getGtestWorkingDirectory(cmakeTest, cwd)
+									: cwd
+							)
+						);
+						nameToItem.forEach((item) => run.skipped(item));
+					}
+
+					// Tests that could not run are errored, not failed
+					const reasonMessage = getTestEndReasonMessage(event);
+					endedItems.add(testItem);
+					if (
+						event.reason === 'notRun' ||
+						event.reason === 'requiredFixtures'
+					) {
+						run.errored(
+							testItem,
+							[
+								...(reasonMessage ? [reasonMessage] : []),
+								...testDecorations,
+							],
+							event.duration
+						);
+						updateTestDiagnostics(testItem, testDecorations);
+						break;
+					}
+					if (reasonMessage) testDecorations.unshift(reasonMessage);
+
+					// Update test state
+					switch (state) {
+						case 'passed':
+							run.passed(testItem, event.duration);
+							break;
+						case 'failed':
+							if (testDecorations.length > 0) {
+								run.failed(
+									testItem,
+									testDecorations,
+									event.duration
+								);
+							} else {
+								run.failed(
+									testItem,
+									new vscode.TestMessage('Test failed'),
+									event.duration
+								);
+							}
+							break;
+						case 'skipped':
+							run.skipped(testItem);
+							break;
+					}
+					recordTestResult(testItem, state, event.duration);
+
+					// Keep diagnostics of skipped tests until they pass again
+					if (state !== 'skipped') {
+						updateTestDiagnostics(
+							testItem,
+							state === 'failed' ? testDecorations : []
+						);
+					}
+					break;
+				}
+			}
+		};
+		const { code } = await executeCmakeTestProcess(
+			testProcess,
+			onEvent,
+			options
+		);
+		if (token.isCancellationRequested) return;
+
+		// Tests never reported by CTest
+		ctestItems.forEach((testItem, i) => {
+			if (endedItems.has(testItem)) return;
+			getGtestCaseItems(testItem).forEach((item) => run.skipped(item));
+			run.errored(
+				testItem,
+				new vscode.TestMessage(
+					testIndexes[i] > 0
+						? `Test result was not reported by CTest (exit code ${code})`
+						: 'Test not found in CTest test list'
+				)
+			);
+		});
+	} catch (e) {
+		// Mark all tests as errored
+		const errorMessage = new vscode.TestMessage(`${e}`);
+		if (testsToRun) {
+			for (const test of testsToRun) {
+				run.errored(test, [errorMessage]);
+			}
+		} else {
+			const allTests = collectTestItems(root);
+			for (const test of allTests) {
+				run.errored(test, [errorMessage]);
+			}
+		}
+	} finally {
+		output.flushAll();
 	}
 }
 
 /**
- * Utility to buffer test outputs.
+ * Build the targets of CMake tests
  *
- * This dramatically improves performances with large test suites, as
- * TestRun.appendOutput is quite slow.
+ * Target names are found in the codemodel, or inferred from test commands
+ * located in the build dir.
+ *
+ * @param run Test run
+ * @param options Run options
+ * @param tests CMake tests to build targets for (undefined for all targets)
+ * @param errorMatchers Error matchers for compiler diagnostics
+ * @param token Cancellation token
+ * @param codemodel CMake codemodel (optional)
+ *
+ * @return Error messages if the build failed, else undefined
  */
-class TestRunOutput {
-	constructor(private run: vscode.TestRun) {}
-	private outputBuffers = new Map<
-		vscode.TestItem,
-		{
-			lines: string[];
-			timer?: NodeJS.Timeout;
-		}
-	>();
+async function buildTestTargets(
+	run: vscode.TestRun,
+	options: CmakeTestRunOptions,
+	tests: CmakeTestInfo[] | undefined,
+	errorMatchers: ErrorMatcher[],
+	token: vscode.CancellationToken,
+	codemodel?: CmakeCodemodel
+) {
+	const { cwd, env, parallelJobs, buildConfig, transport } = options;
+	const targets = tests ? getCmakeTestTargets(tests, cwd, codemodel) : [];
+	if (tests && !targets.length) return;
 
-	appendLine(testItem: vscode.TestItem, line: string) {
-		let buffer = this.outputBuffers.get(testItem);
-		if (!buffer) {
-			buffer = { lines: [] };
-			this.outputBuffers.set(testItem, buffer);
-		}
-		buffer.lines.push(line);
-		if (!buffer.timer) {
-			buffer.timer = setTimeout(this.flushItem.bind(this), 100, testItem);
-		}
+	const buildOptions = {
+		cmakePath: getCmakePath(cwd),
+		cwd,
+		env,
+		parallelJobs,
+		buildConfig,
+		targets,
+		transport,
+	};
+	const buildProcess = scheduleCmakeBuildProcess(buildOptions);
+	const cancellation = token.onCancellationRequested(() =>
+		cancelCmakeTestProcess(buildProcess)
+	);
+	try {
+		const lines: string[] = [];
+		const { code } = await executeCmakeBuildProcess(
+			buildProcess,
+			(line) => {
+				run.appendOutput(`${line}\r\n`);
+				lines.push(line);
+			},
+			buildOptions
+		);
+		if (code === 0 || token.isCancellationRequested) return;
+
+		return [
+			new vscode.TestMessage(`Build failed with code ${code}`),
+			...matchErrors(lines, errorMatchers).map((error) =>
+				getErrorMatchMessage(error, cwd)
+			),
+		];
+	} finally {
+		cancellation.dispose();
 	}
-	flushItem(testItem: vscode.TestItem) {
-		let buffer = this.outputBuffers.get(testItem);
-		if (!buffer) return;
-		if (buffer.lines.length > 0) {
-			this.run.appendOutput(
-				buffer.lines.join('\r\n'),
-				undefined,
-				testItem
-			);
-			buffer.lines.length = 0;
+}
+
+/**
+ * Get build targets of CMake tests
+ *
+ * Targets are found in the codemodel if available, else inferred from test
+ * commands located in the build dir.
+ *
+ * @param tests CMake tests
+ * @param buildDir CMake build directory
+ * @param codemodel CMake codemodel (optional)
+ *
+ * @return Target names
+ */
+function getCmakeTestTargets(
+	tests: CmakeTestInfo[],
+	buildDir: string,
+	codemodel?: CmakeCodemodel
+) {
+	const targets = new Set<string>();
+	for (const test of tests) {
+		const target =
+			codemodel && findCmakeTestTarget(test, codemodel.targets);
+		if (target) {
+			targets.add(target.name);
+			continue;
 		}
-		if (buffer.timer) {
-			clearTimeout(buffer.timer);
-			buffer.timer = undefined;
+
+		const [command] = test.command;
+		if (!command) continue;
+
+		// Only executables within the build dir are built by CMake
+		const relativePath = path.relative(buildDir, command);
+		if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+			continue;
 		}
+		targets.add(path.parse(command).name);
 	}
-	flushAll() {
-		for (const testItem of this.outputBuffers.keys()) {
-			this.flushItem(testItem);
+	return [...targets];
+}
+
+/**
+ * Get name of the CMake test running a test item
+ *
+ * @param item Test item
+ */
+function getCmakeTestName(item: vscode.TestItem) {
+	return gtestItemDataMap.get(item)?.testName ?? item.id;
+}
+
+/**
+ * Split test items between CTest tests and GoogleTest cases
+ *
+ * CTest tests whose cases are all selected run through CTest to honor their
+ * properties; only cases of partially selected tests run directly.
+ *
+ * @param items Leaf test items
+ */
+function splitGtestCaseItems(items: vscode.TestItem[]) {
+	const ctestItems = items.filter((item) => !gtestItemDataMap.has(item));
+	const gtestItems = new Set(
+		items.filter((item) => gtestItemDataMap.has(item))
+	);
+	const testItems = new Set<vscode.TestItem>();
+	gtestItems.forEach((item) => {
+		const testItem = item.parent?.parent;
+		if (testItem) testItems.add(testItem);
+	});
+	testItems.forEach((testItem) => {
+		const caseItems = getGtestCaseItems(testItem);
+		if (caseItems.every((item) => gtestItems.has(item))) {
+			ctestItems.push(testItem);
+			caseItems.forEach((item) => gtestItems.delete(item));
 		}
+	});
+	return { ctestItems, gtestItems: [...gtestItems] };
+}
+
+/**
+ * Get GoogleTest case items of a CTest test item
+ *
+ * @param testItem CTest test item
+ *
+ * @return Case items, empty if the test has none
+ */
+function getGtestCaseItems(testItem: vscode.TestItem) {
+	return collectTestItems(testItem).filter((item) =>
+		gtestItemDataMap.has(item)
+	);
+}
+
+/**
+ * Run GoogleTest cases
+ *
+ * @param run Test run
+ * @param output Test run output
+ * @param cmakeTests List of available CMake tests
+ * @param caseItems GoogleTest case items to run
+ * @param options Run options
+ * @param token Cancellation token
+ */
+async function runGtestCases(
+	run: vscode.TestRun,
+	output: TestRunOutput,
+	cmakeTests: CmakeTestInfo[],
+	caseItems: vscode.TestItem[],
+	options: CmakeTestRunOptions,
+	token: vscode.CancellationToken
+) {
+	// Group case items by CTest test
+	const itemsByTest = new Map<string, vscode.TestItem[]>();
+	for (const item of caseItems) {
+		const { testName } = gtestItemDataMap.get(item)!;
+		const items = itemsByTest.get(testName) || [];
+		items.push(item);
+		itemsByTest.set(testName, items);
+	}
+
+	for (const [testName, items] of itemsByTest) {
+		if (token.isCancellationRequested) return;
+		const test = cmakeTests.find((test) => test.name === testName);
+		if (!test) continue;
+		await runGtestCasesForTest(run, output, test, items, options, token);
 	}
 }
 
 /**
- * Run tests for root item
+ * Run GoogleTest cases of a single CMake test
  *
  * @param run Test run
- * @param root Root test item
+ * @param output Test run output
+ * @param test CMake test info
+ * @param caseItems GoogleTest case items to run
+ * @param options Run options
  * @param token Cancellation token
- * @param testsToRun Optional list of tests to run
  */
-async function runTestsForRoot(
+async function runGtestCasesForTest(
 	run: vscode.TestRun,
-	root: vscode.TestItem,
-	token: vscode.CancellationToken,
-	testsToRun?: vscode.TestItem[]
+	output: TestRunOutput,
+	test: CmakeTestInfo,
+	caseItems: vscode.TestItem[],
+	options: CmakeTestRunOptions,
+	token: vscode.CancellationToken
 ) {
-	if (!root.uri) return; // Should never happen
+	const nameToItem = new Map(caseItems.map((item) => [item.id, item]));
+	const testItem = caseItems[0].parent?.parent || caseItems[0];
+	const cwd = getGtestWorkingDirectory(test, options.cwd);
+	const reportFile = path.join(
+		os.tmpdir(),
+		`CMakeTestExplorer-gtest-${process.pid}-${Date.now()}.json`
+	);
 
-	const output = new TestRunOutput(run);
+	// Schedule and run test cases
+	caseItems.forEach((item) => run.enqueued(item));
+	const testProcess = scheduleGtestProcess(test, {
+		cwd,
+		env: options.env,
+		filter: getGtestFilter(
+			caseItems.map((item) => item.id),
+			getGtestCaseItems(testItem).map((item) => item.id)
+		),
+		reportFile,
+	});
+	const cancellation = token.onCancellationRequested(() =>
+		cancelCmakeTestProcess(testProcess)
+	);
+	let currentItem: vscode.TestItem | undefined;
+	let code: number | null;
 	try {
-		const rootItemData = rootItemDataMap.get(root);
-		if (!rootItemData) return;
-		const { workspaceFolder } = rootItemData;
+		({ code } = await executeGtestProcess(testProcess, (event) => {
+			switch (event.type) {
+				case 'start':
+					currentItem = nameToItem.get(event.name);
+					if (currentItem) run.started(currentItem);
+					break;
 
-		// Get options including CTest path, config, env vars, etc.
-		const cwd = root.uri.fsPath;
-		const ctestPath = getCtestPath(cwd);
-		const options = await getRunOptions(ctestPath, workspaceFolder, cwd);
+				case 'output':
+					output.appendLine(currentItem || testItem, event.line);
+					break;
+			}
+		}));
+	} finally {
+		cancellation.dispose();
+		output.flushAll();
+	}
+	if (token.isCancellationRequested) {
+		// No case is reported without a report
+		caseItems.forEach((item) => run.skipped(item));
+		fs.rm(reportFile, { force: true }, () => {});
+		return;
+	}
 
-		// Get error pattern from settings
-		const [errorPattern] = await getConfigStrings(workspaceFolder, [
-			'errorPattern',
-		]);
-		const errorPatternRe = new RegExp(errorPattern);
+	// Get case results from report
+	let results: GtestCaseResult[] = [];
+	try {
+		results = parseGtestReportFile(reportFile, cwd);
+	} catch (e) {
+		// Report is missing, e.g. after a crash
+	} finally {
+		fs.rm(reportFile, { force: true }, () => {});
+	}
+	reportGtestCaseResults(run, nameToItem, results);
+
+	// Cases missing from report
+	for (const item of nameToItem.values()) {
+		run.errored(
+			item,
+			new vscode.TestMessage(
+				item === currentItem
+					? `Test process exited with code ${code} while running this test`
+					: `Test did not run (process exited with code ${code})`
+			)
+		);
+	}
+}
 
-		// Map test items to their indexes
-		const allTests = await loadCmakeTests(
-			ctestPath,
-			cwd,
-			options.buildConfig,
-			''
+/**
+ * Report results of GoogleTest cases
+ *
+ * @param run Test run
+ * @param nameToItem Case items by name, reported items are removed
+ * @param results Case results
+ */
+function reportGtestCaseResults(
+	run: vscode.TestRun,
+	nameToItem: Map<string, vscode.TestItem>,
+	results: GtestCaseResult[]
+) {
+	for (const { name, state, duration, failures } of results) {
+		const item = nameToItem.get(name);
+		if (!item) continue;
+		nameToItem.delete(name);
+
+		const messages = failures.map(getGtestFailureMessage);
+		switch (state) {
+			case 'passed':
+				run.passed(item, duration);
+				updateTestDiagnostics(item, []);
+				break;
+			case 'failed':
+				run.failed(
+					item,
+					messages.length
+						? messages
+						: new vscode.TestMessage('Test failed'),
+					duration
+				);
+				updateTestDiagnostics(item, messages);
+				break;
+			case 'skipped':
+				run.skipped(item);
+				break;
+		}
+		recordTestResult(item, state, duration);
+	}
+}
+
+/**
+ * Get test message from GoogleTest failure
+ *
+ * @param failure GoogleTest failure
+ */
+function getGtestFailureMessage({
+	message,
+	file,
+	line,
+	expected,
+	actual,
+}: GtestFailure) {
+	const testMessage =
+		expected !== undefined && actual !== undefined
+			? vscode.TestMessage.diff(message, expected, actual)
+			: new vscode.TestMessage(message);
+	if (file && line) {
+		testMessage.location = new vscode.Location(
+			vscode.Uri.file(file),
+			new vscode.Position(line - 1, 0)
 		);
-		const indexToItem = new Map<number, vscode.TestItem>();
-		const testIndexes = (testsToRun || collectTestItems(root)).map(
-			(test) => {
-				const index = allTests.findIndex((t) => t.name === test.id) + 1;
-				if (index > 0) {
-					indexToItem.set(index, test);
-				}
-				return index;
-			}
+	}
+	return testMessage;
+}
+
+/**
+ * Get diff test message from assertion failure
+ *
+ * @param diff Assertion failure
+ * @param cwd Directory to resolve relative paths against
+ */
+function getAssertionDiffMessage(
+	{ message, expected, actual, file, line }: AssertionDiff,
+	cwd: string
+) {
+	const testMessage = vscode.TestMessage.diff(message, expected, actual);
+	if (file && line) {
+		testMessage.location = new vscode.Location(
+			vscode.Uri.file(path.resolve(cwd, file)),
+			new vscode.Position(line - 1, 0)
 		);
+	}
+	return testMessage;
+}
 
-		// Schedule and run tests
-		const testProcess = scheduleCmakeTestProcess(testIndexes, options);
+/**
+ * Get test message from stack trace or sanitizer report
+ *
+ * The message location is the report location if any, else the innermost
+ * frame with an existing source file.
+ *
+ * @param report Stack trace report
+ * @param cwd Directory to resolve relative paths against
+ */
+function getStackTraceMessage(report: StackTraceReport, cwd: string) {
+	const testMessage = new vscode.TestMessage(report.message);
+	const getLocation = (file: string, line: number, column = 1) =>
+		new vscode.Location(
+			vscode.Uri.file(path.resolve(cwd, file)),
+			new vscode.Position(line - 1, column - 1)
+		);
+	testMessage.stackTrace = report.frames.map(
+		({ label, file, line, column }) => {
+			const location = file && line && getLocation(file, line, column);
+			return new vscode.TestMessageStackFrame(
+				label,
+				location ? location.uri : undefined,
+				location ? location.range.start : undefined
+			);
+		}
+	);
+	if (report.file && report.line) {
+		testMessage.location = getLocation(
+			report.file,
+			report.line,
+			report.column
+		);
+	} else {
+		const frame = report.frames.find(
+			({ file, line }) =>
+				file && line && fs.existsSync(path.resolve(cwd, file))
+		);
+		if (frame && frame.file && frame.line) {
+			testMessage.location = getLocation(
+				frame.file,
+				frame.line,
+				frame.column
+			);
+		}
+	}
+	return testMessage;
+}
 
-		// Handle cancellation
-		token.onCancellationRequested(() => {
-			cancelCmakeTestProcess(testProcess);
-			output.flushAll();
-		});
+/**
+ * Report provisional test result
+ *
+ * Messages are only reported with final results.
+ *
+ * @param run Test run
+ * @param testItem Test item
+ * @param event Provisional test end event
+ */
+function reportProvisionalResult(
+	run: vscode.TestRun,
+	testItem: vscode.TestItem,
+	{ state, duration }: CmakeTestEndEvent
+) {
+	switch (state) {
+		case 'passed':
+			run.passed(testItem, duration);
+			break;
+		case 'failed':
+			run.failed(testItem, [], duration);
+			break;
+		case 'skipped':
+			run.skipped(testItem);
+			break;
+	}
+}
 
-		// Run tests and collect output
-		const decorations = new Map<number, vscode.TestMessage[]>();
+/**
+ * Get test message explaining why a test did not pass
+ *
+ * @param event Test end event
+ *
+ * @return Test message, or undefined for plain failures
+ */
+function getTestEndReasonMessage({
+	reason,
+	details,
+	timeout,
+}: CmakeTestEndEvent) {
+	switch (reason) {
+		case 'timeout':
+			return new vscode.TestMessage(
+				timeout !== undefined
+					? `Test timed out after ${timeout} sec`
+					: 'Test timed out'
+			);
+		case 'exception':
+			return new vscode.TestMessage(
+				details ? `Test crashed: ${details}` : 'Test crashed'
+			);
+		case 'notRun':
+			return new vscode.TestMessage(
+				details
+					? `Test could not run: ${details}`
+					: 'Test could not run'
+			);
+		case 'requiredFixtures':
+			return new vscode.TestMessage(
+				details
+					? `Test could not run, setup tests of required fixtures failed: ${details}`
+					: 'Test could not run, setup tests of required fixtures failed'
+			);
+		default:
+			return undefined;
+	}
+}
 
-		await executeCmakeTestProcess(testProcess, (event: CmakeTestEvent) => {
-			const testItem = indexToItem.get(event.index);
-			if (!testItem) return;
+/**
+ * Record test result in test history and update its flaky state
+ *
+ * @param item Test item
+ * @param state Test state
+ * @param duration Duration in milliseconds
+ */
+function recordTestResult(
+	item: vscode.TestItem,
+	state: TestHistoryEntry['state'],
+	duration?: number
+) {
+	testHistory?.add(getRootItem(item).id, getTestKey(item), {
+		state,
+		duration,
+		timestamp: Date.now(),
+	});
+	updateFlakyState(item);
+}
+
+/**
+ * Get key of test item in test history & diagnostics
+ *
+ * GoogleTest case IDs are prefixed with the name of their CTest test, as they
+ * may collide with CTest test names.
+ *
+ * @param item Test item
+ */
+function getTestKey(item: vscode.TestItem) {
+	const gtestItemData = gtestItemDataMap.get(item);
+	return gtestItemData ? `${gtestItemData.testName}/${item.id}` : item.id;
+}
+
+/**
+ * Get keys of test item and its descendants in test history & diagnostics
+ *
+ * @param item Test item
+ */
+function getTestKeys(item: vscode.TestItem): string[] {
+	const keys = [getTestKey(item)];
+	item.children.forEach((child) => keys.push(...getTestKeys(child)));
+	return keys;
+}
+
+/**
+ * Replace diagnostics of a test with its located messages
+ *
+ * @param item Test item
+ * @param messages Test messages, empty to clear diagnostics
+ */
+function updateTestDiagnostics(
+	item: vscode.TestItem,
+	messages: vscode.TestMessage[]
+) {
+	testDiagnostics?.set(
+		getRootItem(item).id,
+		getTestKey(item),
+		item.label,
+		messages
+	);
+}
+
+/**
+ * Update flaky tag and description of test item from its history
+ *
+ * @param item Test item
+ */
+function updateFlakyState(item: vscode.TestItem) {
+	const history =
+		testHistory?.get(getRootItem(item).id, getTestKey(item)) || [];
+	const tags = item.tags.filter((tag) => tag.id !== FLAKY_TAG.id);
+	const descriptions = getFixturesDescriptions(fixturesMap.get(item));
+	if (isFlakyTest(history)) {
+		const passRate = Math.round((getPassRate(history) || 0) * 100);
+		item.tags = [...tags, FLAKY_TAG];
+		descriptions.push(`flaky (${passRate}% pass rate)`);
+	} else {
+		item.tags = tags;
+	}
+	item.description = descriptions.join(' · ') || undefined;
+}
 
-			switch (event.type) {
-				case 'start': {
-					run.started(testItem);
-					break;
-				}
+/**
+ * Get description parts of test item fixtures
+ *
+ * @param fixtures Test fixtures (optional)
+ */
+function getFixturesDescriptions(fixtures?: CmakeTestFixtures) {
+	const descriptions: string[] = [];
+	if (!fixtures) return descriptions;
+	const { setup, cleanup, required } = fixtures;
+	if (setup.length) descriptions.push(`sets up ${setup.join(', ')}`);
+	if (required.length) descriptions.push(`requires ${required.join(', ')}`);
+	if (cleanup.length) descriptions.push(`cleans up ${cleanup.join(', ')}`);
+	return descriptions;
+}
 
-				case 'output': {
-					output.appendLine(testItem, event.line);
+/**
+ * Show test history in a quick pick
+ *
+ * Without test item, let the user pick a test among those with history first.
+ *
+ * @param controller Test controller
+ * @param item Test item (optional)
+ */
+async function showTestHistory(
+	controller: vscode.TestController,
+	item?: vscode.TestItem
+) {
+	if (!testHistory) return;
+	let rootId: string, testId: string;
+	if (item) {
+		rootId = getRootItem(item).id;
+		testId = getTestKey(item);
+	} else {
+		const testItems = testHistory
+			.getTestIds()
+			.filter(([rootId]) => controller.items.get(rootId))
+			.map(([rootId, testId]) => {
+				const history = testHistory!.get(rootId, testId);
+				return {
+					label: testId,
+					description: formatPassRate(history),
+					detail: history
+						.map(({ state }) => HISTORY_STATE_ICONS[state])
+						.join(' '),
+					rootId,
+					testId,
+				};
+			});
+		if (!testItems.length) {
+			await vscode.window.showInformationMessage('No test history');
+			return;
+		}
+		const selected = await vscode.window.showQuickPick(testItems, {
+			placeHolder: 'Select test',
+			matchOnDescription: true,
+		});
+		if (!selected) return;
+		({ rootId, testId } = selected);
+	}
 
-					// Parse error patterns
-					if (event.text) {
-						const matches =
-							event.text.match(errorPatternRe)?.groups;
-						if (matches) {
-							const { file, line, severity, message } = matches;
+	const history = testHistory.get(rootId, testId);
+	await vscode.window.showQuickPick(
+		history
+			.slice()
+			.reverse()
+			.map(({ state, duration, timestamp }) => ({
+				label: `${HISTORY_STATE_ICONS[state]} ${state}`,
+				description:
+					duration !== undefined
+						? `${Math.round(duration)} ms`
+						: undefined,
+				detail: new Date(timestamp).toLocaleString(),
+			})),
+		{ title: `${testId}: ${formatPassRate(history)}` }
+	);
+}
 
-							if (!decorations.has(event.index)) {
-								decorations.set(event.index, []);
-							}
+/**
+ * Format pass rate of test history
+ *
+ * @param history Test history
+ */
+function formatPassRate(history: TestHistoryEntry[]) {
+	const passRate = getPassRate(history);
+	const flaky = isFlakyTest(history) ? ', flaky' : '';
+	return passRate === undefined
+		? 'no runs'
+		: `${Math.round(passRate * 100)}% pass rate over ${history.length} runs${flaky}`;
+}
 
-							const decoration = new vscode.TestMessage(
-								severity ? `${severity}: ${message}` : message
-							);
-							decoration.location = new vscode.Location(
-								vscode.Uri.file(file),
-								new vscode.Position(
-									Number.parseInt(line) - 1,
-									0
-								)
-							);
-							decorations.get(event.index)?.push(decoration);
-						}
-					}
-					break;
-				}
+/**
+ * Get root of test item
+ *
+ * @param item Test item
+ */
+function getRootItem(item: vscode.TestItem) {
+	let root = item;
+	while (root.parent) {
+		root = root.parent;
+	}
+	return root;
+}
 
-				case 'end': {
-					output.flushItem(testItem);
+/**
+ * Get test message with location from matched error
+ *
+ * @param error Matched error
+ * @param cwd Directory to resolve relative paths against
+ */
+function getErrorMatchMessage(
+	{ file, line, column, severity, message }: ErrorMatch,
+	cwd: string
+) {
+	const decoration = new vscode.TestMessage(
+		severity ? `${severity}: ${message}` : message
+	);
+	decoration.location = new vscode.Location(
+		vscode.Uri.file(path.resolve(cwd, file)),
+		new vscode.Position(line - 1, column ? column - 1 : 0)
+	);
+	return decoration;
+}
 
-					const testDecorations = decorations.get(event.index) || [];
+/**
+ * Get test message from pass/fail criteria explanation
+ *
+ * The message is located at the source location of the matched output line
+ * if any, else at the test definition.
+ *
+ * @param explanation Criteria explanation
+ * @param testItem Test item
+ * @param errorMatchers Error matchers for source locations
+ * @param cwd Directory to resolve relative paths against
+ */
+function getCriteriaExplanationMessage(
+	{ message, line }: CriteriaExplanation,
+	testItem: vscode.TestItem,
+	errorMatchers: ErrorMatcher[],
+	cwd: string
+) {
+	const testMessage = new vscode.TestMessage(
+		line !== undefined ? `${message}:\n${line}` : message
+	);
+	const [error] =
+		line !== undefined ? matchErrors([line], errorMatchers) : [];
+	if (error) {
+		testMessage.location = getErrorMatchMessage(error, cwd).location;
+	} else if (testItem.uri && testItem.range) {
+		testMessage.location = new vscode.Location(
+			testItem.uri,
+			testItem.range
+		);
+	}
+	return testMessage;
+}
 
-					// Update test state
-					switch (event.state) {
-						case 'passed':
-							run.passed(testItem, event.duration);
-							break;
-						case 'failed':
-							if (testDecorations.length > 0) {
-								run.failed(
-									testItem,
-									testDecorations,
-									event.duration
-								);
-							} else {
-								run.failed(
-									testItem,
-									new vscode.TestMessage('Test failed')
-								);
-							}
-							break;
-						case 'skipped':
-							run.skipped(testItem);
-							break;
-					}
-					break;
-				}
-			}
-		});
-	} catch (e) {
-		// Mark all tests as errored
-		const errorMessage = new vscode.TestMessage(`${e}`);
-		if (testsToRun) {
-			for (const test of testsToRun) {
-				run.errored(test, [errorMessage]);
-			}
-		} else {
-			const allTests = collectTestItems(root);
-			for (const test of allTests) {
-				run.errored(test, [errorMessage]);
-			}
-		}
-	} finally {
-		output.flushAll();
+/**
+ * Collect test items of a run request grouped by root
+ *
+ * @param controller Test controller
+ * @param request Test run request, including all tests if unspecified
+ *
+ * @return Leaf test items grouped by root
+ */
+function collectRequestItemsByRoot(
+	controller: vscode.TestController,
+	request: vscode.TestRunRequest
+) {
+	if (request.include) return collectTestItemsByRoot(request.include);
+
+	const itemsByRoot = new Map<vscode.TestItem, vscode.TestItem[]>();
+	for (const [_, rootItem] of controller.items) {
+		itemsByRoot.set(rootItem, collectTestItems(rootItem));
 	}
+	return itemsByRoot;
 }
 
 /**
@@ -481,10 +2815,7 @@ function collectTestItemsByRoot(include: readonly vscode.TestItem[]) {
 	const itemsByRoot = new Map<vscode.TestItem, vscode.TestItem[]>();
 	for (const item of include) {
 		// Get root by traversing up the tree
-		let root = item;
-		while (root.parent) {
-			root = root.parent;
-		}
+		const root = getRootItem(item);
 
 		// Get all leaf test items under this item
 		const leafTests = collectTestItems(item);
@@ -525,37 +2856,69 @@ function collectTestItems(item: vscode.TestItem): vscode.TestItem[] {
  * Get test run options
  *
  * @param ctestPath The path to the CTest executable
- * @param workspaceFolder The workspace folder containing the tests
  * @param cwd The working directory for CTest
+ * @param rootItemData Root item data of the tests
  *
  * @return Run options
  */
 async function getRunOptions(
 	ctestPath: string,
-	workspaceFolder: vscode.WorkspaceFolder,
-	cwd: string
+	cwd: string,
+	rootItemData: RootItemData
 ): Promise<CmakeTestRunOptions> {
-	// Get & substitute config settings
-	const [buildConfig, extraCtestRunArgs] = await getConfigStrings(
-		workspaceFolder,
-		['buildConfig', 'extraCtestRunArgs']
-	);
+	// Get & substitute config settings, test preset values take precedence
+	const { workspaceFolder, preset, transport } = rootItemData;
+	const [extraCtestRunArgs] = await getConfigStrings(workspaceFolder, [
+		'extraCtestRunArgs',
+	]);
 	const extraCtestEnvVars = await getConfigObject(
 		workspaceFolder,
 		'extraCtestEnvVars'
 	);
-	const parallelJobs = getParallelJobs(workspaceFolder);
+	const parallelJobs = preset?.jobs ?? getParallelJobs(workspaceFolder);
+
+	// Get final results from JUnit output when supported
+	const junitFile = (await isJunitOutputSupported(ctestPath, transport))
+		? getJunitOutputFile(cwd)
+		: undefined;
 
 	return {
 		ctestPath,
 		cwd,
-		env: mergeVariablesIntoProcessEnv(extraCtestEnvVars),
+		env: mergeVariablesIntoProcessEnv({
+			...preset?.environment,
+			...extraCtestEnvVars,
+		}),
 		parallelJobs,
-		buildConfig,
+		buildConfig: await getRootBuildConfig(rootItemData),
 		extraArgs: extraCtestRunArgs,
+		junitFile,
+		preset,
+		transport,
 	};
 }
 
+/**
+ * Get build configuration of root item
+ *
+ * Test presets and multi-config generator roots take precedence over the
+ * `cmakeExplorer.buildConfig` setting.
+ *
+ * @param rootItemData Root item data
+ */
+async function getRootBuildConfig({
+	workspaceFolder,
+	preset,
+	buildConfig,
+}: RootItemData) {
+	if (preset) return preset.configuration;
+	if (buildConfig) return buildConfig;
+	const [buildConfigSetting] = await getConfigStrings(workspaceFolder, [
+		'buildConfig',
+	]);
+	return buildConfigSetting;
+}
+
 /**
  * Debug tests
  *
@@ -599,36 +2962,168 @@ async function debugTestsForRoot(
 ) {
 	const rootItemData = rootItemDataMap.get(root);
 	if (!rootItemData) return;
-	const { workspaceFolder } = rootItemData;
+	const { workspaceFolder, preset } = rootItemData;
 
 	// Get CTest path and load tests
 	const cwd = root.uri!.fsPath;
 	const ctestPath = getCtestPath(cwd);
-	const [buildConfig] = await getConfigStrings(workspaceFolder, [
-		'buildConfig',
-	]);
-	const cmakeTests = await loadCmakeTests(ctestPath, cwd, buildConfig, '');
+	const buildConfig = await getRootBuildConfig(rootItemData);
+	const cmakeTests = await loadCmakeTests(
+		ctestPath,
+		cwd,
+		buildConfig,
+		'',
+		undefined,
+		rootItemData.transport
+	);
 
-	// Debug each test in the group
+	// Group GoogleTest cases by CTest test, undefined means the whole test
+	const gtestFilters = new Map<string, string[] | undefined>();
 	for (const item of testsToRun) {
+		const gtestItemData = gtestItemDataMap.get(item);
+		if (!gtestItemData) {
+			gtestFilters.set(item.id, undefined);
+			continue;
+		}
+		const { testName } = gtestItemData;
+		if (gtestFilters.has(testName) && !gtestFilters.get(testName)) {
+			continue;
+		}
+		gtestFilters.set(testName, [
+			...(gtestFilters.get(testName) || []),
+			item.id,
+		]);
+	}
+
+	// Debug each test in the group
+	for (const [id, cases] of gtestFilters) {
 		if (token.isCancellationRequested) return;
-		await debugTest(workspaceFolder, cmakeTests, ctestPath, item.id);
+		const extraArgs = cases ? [`--gtest_filter=${cases.join(':')}`] : [];
+
+		// Run setup tests of required fixtures first, as CTest would
+		const test = cmakeTests.find((test) => test.name === id);
+		const { setup, cleanup } = getCmakeFixtureTests(
+			cmakeTests,
+			test ? [test] : []
+		);
+		const setupFailures = await runFixtureTests(
+			ctestPath,
+			cwd,
+			rootItemData,
+			cmakeTests,
+			setup
+		);
+		if (setupFailures.length) {
+			await vscode.window.showErrorMessage(
+				`Cannot debug CMake test ${id}, fixture setup tests failed: ${setupFailures.join(', ')}`
+			);
+		} else {
+			await debugTest(
+				workspaceFolder,
+				cmakeTests,
+				ctestPath,
+				cwd,
+				id,
+				extraArgs,
+				preset,
+				cleanup.length > 0,
+				rootItemData.transport
+			);
+		}
+
+		// Then run cleanup tests once the debug session ends
+		const cleanupFailures = await runFixtureTests(
+			ctestPath,
+			cwd,
+			rootItemData,
+			cmakeTests,
+			cleanup
+		);
+		if (cleanupFailures.length) {
+			await vscode.window.showWarningMessage(
+				`Fixture cleanup tests of CMake test ${id} failed: ${cleanupFailures.join(', ')}`
+			);
+		}
 	}
 }
 
+/**
+ * Run fixture setup or cleanup tests outside of test runs
+ *
+ * @param ctestPath Path to CTest executable
+ * @param cwd The working directory for CTest
+ * @param rootItemData Root item data of the tests
+ * @param cmakeTests List of available CMake tests
+ * @param fixtureTests Fixture tests to run
+ *
+ * @return Names of failed tests
+ */
+async function runFixtureTests(
+	ctestPath: string,
+	cwd: string,
+	rootItemData: RootItemData,
+	cmakeTests: CmakeTestInfo[],
+	fixtureTests: CmakeTestInfo[]
+) {
+	const failed: string[] = [];
+	if (!fixtureTests.length) return failed;
+
+	const options = await getRunOptions(ctestPath, cwd, rootItemData);
+	const testIndexes = fixtureTests.map(
+		(test) => cmakeTests.indexOf(test) + 1
+	);
+
+	// Prevent CTest from adding other fixture tests
+	const testProcess = scheduleCmakeTestProcess(testIndexes, {
+		...options,
+		extraArgs: `${options.extraArgs} -FA .`,
+	});
+	await vscode.window.withProgress(
+		{
+			location: vscode.ProgressLocation.Window,
+			title: `Running fixture tests ${fixtureTests.map((test) => test.name).join(', ')}`,
+		},
+		() =>
+			executeCmakeTestProcess(
+				testProcess,
+				(event) => {
+					if (
+						event.type === 'end' &&
+						!event.provisional &&
+						event.state === 'failed'
+					) {
+						failed.push(event.name);
+					}
+				},
+				options
+			)
+	);
+	return failed;
+}
+
 /**
  * Debug a single test
  *
  * @param workspaceFolder Workspace folder containing the test
  * @param cmakeTests List of available CMake tests
  * @param ctestPath Path to CTest executable
+ * @param cwd CMake build directory
  * @param id Test ID to debug
+ * @param extraArgs Extra arguments appended to the test command
+ * @param preset Test preset (optional)
+ * @param waitForEnd Wait for the end of the debug session
+ * @param transport Remote transport of the tests (optional)
  */
 async function debugTest(
 	workspaceFolder: vscode.WorkspaceFolder,
 	cmakeTests: CmakeTestInfo[],
 	ctestPath: string,
-	id: string
+	cwd: string,
+	id: string,
+	extraArgs: string[] = [],
+	preset?: CmakeTestPreset,
+	waitForEnd = false,
+	transport?: RemoteTransport
 ) {
 	const test = cmakeTests.find((test) => test.name === id);
 	if (!test) {
@@ -636,22 +3131,88 @@ async function debugTest(
 		return;
 	}
 
+	let session: ReturnType<typeof trackDebugSession> | undefined;
+	let started = false;
+	let emulatorProcess: child_process.ChildProcess | undefined;
+
 	// Debug test
 	const disposables: vscode.Disposable[] = [];
 	try {
 		// Get & substitute config settings
-		const extraCtestEnvVars = await getConfigObject(
-			workspaceFolder,
-			'extraCtestEnvVars'
-		);
+		const extraCtestEnvVars = {
+			...preset?.environment,
+			...(await getConfigObject(workspaceFolder, 'extraCtestEnvVars')),
+		};
 		const [debugConfig] = await getConfigStrings(workspaceFolder, [
 			'debugConfig',
 		]);
 		const defaultConfig = getDefaultDebugConfiguration();
 
-		// Get test-specific debug config
-		const { env, ...debuggedTestConfig } =
-			getCmakeTestDebugConfiguration(test);
+		// Get test-specific debug config, with environment modifications
+		// applied on top of the CTest environment
+		const baseEnv = mergeVariablesIntoProcessEnv(extraCtestEnvVars);
+		const {
+			program,
+			args,
+			cwd: testCwd,
+			env: testEnv,
+			...debuggedTestConfig
+		} = getCmakeTestDebugConfiguration(test, extraArgs, baseEnv);
+
+		// Debug the actual test program instead of its wrappers or emulator
+		const {
+			command: [testProgram, ...testArgs],
+			env,
+			cwd: testWorkingDirectory,
+			emulator,
+		} = unwrapTestCommand(
+			{ command: [program, ...args], env: testEnv || {}, cwd: testCwd },
+			await getWorkspaceDebugWrappers(workspaceFolder),
+			getCmakeCrossCompilingEmulator(cwd),
+			baseEnv
+		);
+		const workingDirectory =
+			testWorkingDirectory && path.resolve(cwd, testWorkingDirectory);
+		Object.assign(debuggedTestConfig, {
+			program: /[\\/]/.test(testProgram)
+				? path.resolve(workingDirectory || cwd, testProgram)
+				: testProgram,
+			args: testArgs,
+			cwd: workingDirectory,
+		});
+
+		// Run the emulator with a GDB stub for the debugger to attach to
+		let remoteConfig = {};
+		let remoteLldbConfig = {};
+		if (emulator) {
+			// The GDB stub would run on the remote side, out of reach of the
+			// local debugger
+			if (transport) {
+				throw new Error(
+					'emulated tests cannot be debugged with a remote command'
+				);
+			}
+			const port = await getFreePort();
+			const [emulatorProgram, ...emulatorArgs] = emulator;
+			emulatorProcess = child_process.spawn(
+				emulatorProgram,
+				[...emulatorArgs, '-g', `${port}`, testProgram, ...testArgs],
+				{ cwd: workingDirectory || cwd, env: { ...baseEnv, ...env } }
+			);
+			emulatorProcess.on('error', (error) =>
+				vscode.window.showErrorMessage(
+					`Error running emulator ${emulatorProgram}: ${error.message}`
+				)
+			);
+			remoteConfig = { miDebuggerServerAddress: `localhost:${port}` };
+			remoteLldbConfig = {
+				request: 'custom',
+				targetCreateCommands: [
+					`target create "${debuggedTestConfig.program}"`,
+				],
+				processCreateCommands: [`gdb-remote ${port}`],
+			};
+		}
 
 		// Utilities to merge configs and environment variables
 		const mergeEnvironments = (environment: DebugEnvironment) =>
@@ -665,12 +3226,18 @@ async function debugTest(
 		}: vscode.DebugConfiguration) => ({
 			...config,
 			...debuggedTestConfig,
+			...remoteConfig,
 			environment: mergeEnvironments(environment),
 		});
 		const mergeLldbConfigs = (config: vscode.DebugConfiguration) => ({
 			...config,
 			...debuggedTestConfig,
-			env: { ...config.env, ...extraCtestEnvVars, ...env },
+			...remoteLldbConfig,
+			env: getLldbEnvironment({
+				...config.env,
+				...extraCtestEnvVars,
+				...env,
+			}),
 		});
 
 		// Register a DebugConfigurationProvider to combine global and
@@ -688,9 +3255,12 @@ async function debugTest(
 			})
 		);
 
+		// Track the session before it starts, as it may end early
+		if (waitForEnd || emulatorProcess) session = trackDebugSession();
+
 		// Start the debugging session. The actual debug config will combine the
 		// global and test-specific values
-		await vscode.debug.startDebugging(
+		started = await vscode.debug.startDebugging(
 			workspaceFolder,
 			debugConfig || defaultConfig
 		);
@@ -701,6 +3271,51 @@ async function debugTest(
 	} finally {
 		disposables.forEach((disposable) => disposable.dispose());
 	}
+
+	if (session) {
+		if (started) await session.ended;
+		session.dispose();
+	}
+	emulatorProcess?.kill();
+}
+
+/**
+ * Get a free TCP port on the local host
+ */
+function getFreePort() {
+	return new Promise<number>((resolve, reject) => {
+		const server = net.createServer();
+		server.on('error', reject);
+		server.listen(0, 'localhost', () => {
+			const { port } = server.address() as net.AddressInfo;
+			server.close(() => resolve(port));
+		});
+	});
+}
+
+/**
+ * Track the next debug session
+ *
+ * @return Promise resolved when the session ends, and disposer
+ */
+function trackDebugSession() {
+	let session: vscode.DebugSession | undefined;
+	const disposables: vscode.Disposable[] = [];
+	const ended = new Promise<void>((resolve) => {
+		disposables.push(
+			vscode.debug.onDidStartDebugSession((started) => {
+				session = session || started;
+			}),
+			vscode.debug.onDidTerminateDebugSession((terminated) => {
+				if (terminated === session) resolve();
+			})
+		);
+	});
+	return {
+		ended,
+		dispose: () =>
+			disposables.forEach((disposable) => disposable.dispose()),
+	};
 }
 
 /**
@@ -791,6 +3406,64 @@ async function getConfigObject(
 	return obj;
 }
 
+/**
+ * Get error matchers from workspace settings
+ *
+ * The deprecated `cmakeExplorer.errorPattern` setting takes precedence when
+ * set.
+ *
+ * @param workspaceFolder Workspace folder
+ */
+async function getWorkspaceErrorMatchers(
+	workspaceFolder: vscode.WorkspaceFolder
+) {
+	const config = getWorkspaceConfiguration(workspaceFolder);
+	const matchers =
+		config.get<(string | ErrorMatcherConfig)[]>('errorMatchers') || [];
+	const [errorPattern] = await getConfigStrings(workspaceFolder, [
+		'errorPattern',
+	]);
+	return getErrorMatchers(
+		errorPattern ? [{ pattern: errorPattern }, ...matchers] : matchers
+	);
+}
+
+/**
+ * Get debug wrappers from workspace settings
+ *
+ * @param workspaceFolder Workspace folder
+ */
+async function getWorkspaceDebugWrappers(
+	workspaceFolder: vscode.WorkspaceFolder
+) {
+	const config = getWorkspaceConfiguration(workspaceFolder);
+	return getDebugWrappers(
+		config.get<DebugWrapperConfig[]>('debugWrappers') || []
+	);
+}
+
+/**
+ * Get remote transport from workspace settings
+ *
+ * @param workspaceFolder Workspace folder
+ *
+ * @return Remote transport, undefined if CTest runs locally
+ */
+async function getWorkspaceRemoteTransport(
+	workspaceFolder: vscode.WorkspaceFolder
+) {
+	const config = getWorkspaceConfiguration(workspaceFolder);
+	const varMap = await getVariableSubstitutionMap(workspaceFolder);
+	const remoteCommand = configGetStr(config, varMap, 'remoteCommand');
+	const pathMappings = (
+		config.get<PathMappingConfig[]>('remotePathMappings') || []
+	).map(({ local, remote }) => ({
+		local: substituteString(local, varMap),
+		remote: substituteString(remote, varMap),
+	}));
+	return getRemoteTransport(remoteCommand, pathMappings);
+}
+
 /**
  * Get variable to value substitution map for config strings
  *
@@ -979,25 +3652,46 @@ function mergeVariablesIntoProcessEnv(variables: { [name: string]: string }) {
 	return result;
 }
 
+/**
+ * Get CodeLLDB environment
+ *
+ * CodeLLDB inherits the environment of VS Code and ignores undefined values,
+ * so unset variables are passed as empty strings.
+ *
+ * @param variables Variables, undefined values are unset
+ *
+ * @return Environment with all values defined
+ */
+function getLldbEnvironment(variables: NodeJS.ProcessEnv) {
+	const result: { [name: string]: string } = {};
+	for (const name in variables) {
+		result[name] = variables[name] ?? '';
+	}
+	return result;
+}
+
 /**
  * Merge variables into debug environment
  *
  * @param environment Target environment
- * @param variables Variables to merge
+ * @param variables Variables to merge, undefined values are removed
  *
  * @return Environment with variables merged
  */
 function mergeVariablesIntoDebugEnv(
 	environment: DebugEnvironment,
-	variables: { [name: string]: string }
+	variables: NodeJS.ProcessEnv
 ) {
 	const result = [...environment];
 	for (let name in variables) {
-		const variableIndex = getVariableIndex(name, environment);
-		if (variableIndex == -1) {
-			result.push({ name, value: variables[name] });
+		const value = variables[name];
+		const variableIndex = getVariableIndex(name, result);
+		if (value === undefined) {
+			if (variableIndex != -1) result.splice(variableIndex, 1);
+		} else if (variableIndex == -1) {
+			result.push({ name, value });
 		} else {
-			result[variableIndex] = { name, value: variables[name] };
+			result[variableIndex] = { name, value };
 		}
 	}
 	return result;
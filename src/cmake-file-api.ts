@@ -0,0 +1,247 @@
+/**
+ * @file CMake File API codemodel
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+	CmakeBacktraceGraph,
+	CmakeTestInfo,
+} from './interfaces/cmake-test-info';
+
+/** File API directory in build dir */
+const FILE_API_DIR = path.join('.cmake', 'api', 'v1');
+
+/** Stateless query file of the codemodel for this client */
+const CODEMODEL_QUERY_FILE = path.join(
+	FILE_API_DIR,
+	'query',
+	'client-cmake-test-explorer',
+	'codemodel-v2'
+);
+
+/** Regexp for reply index file names, sorted by generation time */
+const REPLY_INDEX_RE = /^index-.*\.json$/;
+
+/**
+ * File API reply index
+ *
+ * @see https://cmake.org/cmake/help/latest/manual/cmake-file-api.7.html#v1-reply-index-file
+ *
+ * @remarks We only declare the subset we need
+ */
+interface ReplyIndex {
+	objects: {
+		kind: string;
+		version: { major: number; minor: number };
+		jsonFile: string;
+	}[];
+}
+
+/**
+ * Codemodel reply object
+ *
+ * @see https://cmake.org/cmake/help/latest/manual/cmake-file-api.7.html#codemodel-version-2
+ *
+ * @remarks We only declare the subset we need
+ */
+interface CodemodelReply {
+	paths: { source: string; build: string };
+	configurations: {
+		name: string;
+		targets: { name: string; id: string; jsonFile: string }[];
+	}[];
+}
+
+/**
+ * Codemodel target reply object
+ *
+ * @see https://cmake.org/cmake/help/latest/manual/cmake-file-api.7.html#codemodel-version-2-target-object
+ *
+ * @remarks We only declare the subset we need
+ */
+interface TargetReply {
+	name: string;
+	id: string;
+	type: string;
+	backtrace?: number;
+	backtraceGraph?: CmakeBacktraceGraph;
+	paths: { source: string; build: string };
+	artifacts?: { path: string }[];
+	sources?: { path: string }[];
+	dependencies?: { id: string }[];
+}
+
+/** CMake target from the codemodel */
+export interface CmakeTarget {
+	/** Target ID, unique within the codemodel */
+	id: string;
+
+	/** Target name */
+	name: string;
+
+	/** Target type, e.g. `EXECUTABLE` or `STATIC_LIBRARY` */
+	type: string;
+
+	/** Absolute paths of target artifacts */
+	artifacts: string[];
+
+	/** Absolute source directory of the target */
+	sourceDir: string;
+
+	/** Absolute paths of target sources */
+	sources: string[];
+
+	/** Location of the command defining the target, if known */
+	definition?: { file: string; line?: number };
+
+	/** IDs of targets this target depends on */
+	dependencies: string[];
+}
+
+/** CMake codemodel of a build configuration */
+export interface CmakeCodemodel {
+	/** Absolute top-level source directory */
+	sourceDir: string;
+
+	/** Targets of the configuration */
+	targets: CmakeTarget[];
+}
+
+/**
+ * Write the codemodel query for the next CMake configure step
+ *
+ * @param buildDir CMake build directory
+ */
+export function writeCodemodelQuery(buildDir: string) {
+	const queryFile = path.join(buildDir, CODEMODEL_QUERY_FILE);
+	if (fs.existsSync(queryFile)) return;
+	fs.mkdirSync(path.dirname(queryFile), { recursive: true });
+	fs.writeFileSync(queryFile, '');
+}
+
+/**
+ * Read the codemodel from the latest File API reply
+ *
+ * Replies are written by CMake when configuring the build dir, for our query
+ * or those of other clients such as CMake Tools.
+ *
+ * @param buildDir CMake build directory
+ * @param configuration Build configuration (optional, default to first one)
+ *
+ * @return Codemodel, undefined if no valid reply
+ */
+export function readCmakeCodemodel(
+	buildDir: string,
+	configuration?: string
+): CmakeCodemodel | undefined {
+	const replyDir = path.join(buildDir, FILE_API_DIR, 'reply');
+	const readReplyFile = <T>(file: string): T =>
+		JSON.parse(fs.readFileSync(path.join(replyDir, file)).toString());
+	try {
+		if (!fs.existsSync(replyDir)) return;
+		const [indexFile] = fs
+			.readdirSync(replyDir)
+			.filter((file) => REPLY_INDEX_RE.test(file))
+			.sort()
+			.reverse();
+		if (!indexFile) return;
+
+		const { objects } = readReplyFile<ReplyIndex>(indexFile);
+		const codemodelObject = objects.find(
+			({ kind, version }) => kind === 'codemodel' && version.major === 2
+		);
+		if (!codemodelObject) return;
+
+		const { paths, configurations } = readReplyFile<CodemodelReply>(
+			codemodelObject.jsonFile
+		);
+		const config =
+			configurations.find(
+				({ name }) =>
+					!!configuration &&
+					name.toLowerCase() === configuration.toLowerCase()
+			) || configurations[0];
+		if (!config) return;
+
+		const targets = config.targets.map(({ jsonFile }) =>
+			getCmakeTarget(
+				readReplyFile<TargetReply>(jsonFile),
+				paths.source,
+				paths.build
+			)
+		);
+		return { sourceDir: paths.source, targets };
+	} catch (e) {
+		// Replies may be incomplete while CMake is writing them
+		return;
+	}
+}
+
+/**
+ * Get CMake target from codemodel target object
+ *
+ * @param target Target object
+ * @param sourceDir Top-level source directory
+ * @param buildDir Top-level build directory
+ */
+function getCmakeTarget(
+	target: TargetReply,
+	sourceDir: string,
+	buildDir: string
+): CmakeTarget {
+	const { backtrace, backtraceGraph } = target;
+	const node =
+		backtrace !== undefined ? backtraceGraph?.nodes[backtrace] : undefined;
+	return {
+		id: target.id,
+		name: target.name,
+		type: target.type,
+		artifacts: (target.artifacts || []).map((artifact) =>
+			path.resolve(buildDir, artifact.path)
+		),
+		sourceDir: path.resolve(sourceDir, target.paths.source),
+		sources: (target.sources || []).map((source) =>
+			path.resolve(sourceDir, source.path)
+		),
+		definition: node && {
+			file: path.resolve(sourceDir, backtraceGraph!.files[node.file]),
+			line: node.line,
+		},
+		dependencies: (target.dependencies || []).map(({ id }) => id),
+	};
+}
+
+/**
+ * Find the target of the executable run by a CMake test
+ *
+ * This is the first executable target artifact in the test command, so that
+ * wrappers and emulators are skipped.
+ *
+ * @param test CMake test info
+ * @param targets Codemodel targets
+ *
+ * @return Test target, undefined if none
+ */
+export function findCmakeTestTarget(
+	test: CmakeTestInfo,
+	targets: CmakeTarget[]
+) {
+	const normalize = (file: string) =>
+		process.platform === 'win32'
+			? path.normalize(file).toLowerCase()
+			: path.normalize(file);
+	const executables = new Map<string, CmakeTarget>();
+	for (const target of targets) {
+		if (target.type !== 'EXECUTABLE') continue;
+		for (const artifact of target.artifacts) {
+			executables.set(normalize(artifact), target);
+		}
+	}
+	for (const arg of test.command) {
+		if (!path.isAbsolute(arg)) continue;
+		const target = executables.get(normalize(arg));
+		if (target) return target;
+	}
+	return undefined;
+}
@@ -0,0 +1,129 @@
+/**
+ * @file CTest JUnit XML report parsing
+ */
+
+import * as fs from 'fs';
+import { XMLParser } from 'fast-xml-parser';
+
+/**
+ * CTest JUnit test case
+ *
+ * `ctest --output-junit <file>` writes test results in JUnit XML format
+ *
+ * @see https://cmake.org/cmake/help/latest/manual/ctest.1.html#cmdoption-ctest-output-junit
+ *
+ * @remarks We only declare the subset we need
+ */
+export interface CmakeJunitTestCase {
+	/** Test name */
+	name: string;
+
+	/** Test status as reported by CTest */
+	status: 'run' | 'fail' | 'notrun' | 'disabled' | string;
+
+	/** Duration in milliseconds */
+	duration?: number;
+
+	/** Failure or skip message, if any */
+	message?: string;
+
+	/** Test output */
+	output: string;
+}
+
+/**
+ * Parsed JUnit `testcase` element
+ *
+ * Attributes and child elements are parsed as properties, with string values.
+ *
+ * @remarks We only declare the subset we need
+ */
+interface JunitTestCaseNode {
+	/** Test name */
+	name: string;
+
+	/** Test status */
+	status: string;
+
+	/** Duration in seconds */
+	time?: string;
+
+	/** Failure result, if any */
+	failure?: JunitResultNode;
+
+	/** Skip result, if any */
+	skipped?: JunitResultNode;
+
+	/** Test output */
+	'system-out'?: JunitTextNode;
+}
+
+/**
+ * Parsed JUnit `failure` or `skipped` element, an empty string when the
+ * element has no attributes
+ *
+ * @remarks We only declare the subset we need
+ */
+type JunitResultNode = string | { message?: string };
+
+/**
+ * Parsed XML element with text content, either a plain string or an object
+ * with a text node when the element has attributes
+ */
+type JunitTextNode = string | { '#text'?: string };
+
+/** XML parser options */
+const parser = new XMLParser({
+	ignoreAttributes: false,
+	attributeNamePrefix: '',
+	parseAttributeValue: false,
+	parseTagValue: false,
+	trimValues: false,
+	isArray: (name) => name === 'testcase',
+});
+
+/**
+ * Parse CTest JUnit report file
+ *
+ * @param junitFile Path of the JUnit XML file written by CTest
+ *
+ * @return List of test cases
+ */
+export function parseCmakeJunitFile(junitFile: string): CmakeJunitTestCase[] {
+	return parseCmakeJunitReport(fs.readFileSync(junitFile).toString());
+}
+
+/**
+ * Parse CTest JUnit report
+ *
+ * @param xml JUnit XML string
+ *
+ * @return List of test cases
+ */
+export function parseCmakeJunitReport(xml: string): CmakeJunitTestCase[] {
+	const data = parser.parse(xml);
+	const testcases: JunitTestCaseNode[] = data?.testsuite?.testcase || [];
+	return testcases.map((testcase) => {
+		const time = Number.parseFloat(testcase.time ?? '');
+		const result = testcase.failure || testcase.skipped;
+		return {
+			name: `${testcase.name}`,
+			status: testcase.status,
+			duration: isNaN(time) ? undefined : time * 1000,
+			message:
+				(typeof result === 'object' && result.message) || undefined,
+			output: getTextContent(testcase['system-out']),
+		};
+	});
+}
+
+/**
+ * Get text content of a parsed XML element
+ *
+ * @param element Parsed element, if any
+ */
+function getTextContent(element?: JunitTextNode): string {
+	if (element === undefined || element === null) return '';
+	if (typeof element === 'object') return `${element['#text'] ?? ''}`;
+	return `${element}`;
+}
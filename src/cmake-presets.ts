@@ -0,0 +1,531 @@
+/**
+ * @file CMake presets support
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/** Name of CMake presets file in source dir */
+export const CMAKE_PRESETS_FILE = 'CMakePresets.json';
+
+/** Name of CMake user presets file in source dir */
+export const CMAKE_USER_PRESETS_FILE = 'CMakeUserPresets.json';
+
+/** Regexp for macros in preset strings */
+const MACRO_RE = /\$(env|penv|vendor)?\{([^}]*)\}/g;
+
+/**
+ * Preset condition
+ *
+ * @see https://cmake.org/cmake/help/latest/manual/cmake-presets.7.html#condition
+ */
+type PresetCondition =
+	| boolean
+	| null
+	| {
+			type: string;
+			value?: boolean;
+			lhs?: string;
+			rhs?: string;
+			string?: string;
+			list?: string[];
+			regex?: string;
+			conditions?: PresetCondition[];
+			condition?: PresetCondition;
+	  };
+
+/** Preset environment, `null` means unset */
+type PresetEnvironment = { [name: string]: string | null };
+
+/** Fields common to all preset kinds */
+interface BasePreset {
+	name: string;
+	hidden?: boolean;
+	inherits?: string | string[];
+	condition?: PresetCondition;
+	displayName?: string;
+	description?: string;
+	environment?: PresetEnvironment;
+
+	/** Directory of the file containing the preset (not part of the schema) */
+	fileDir: string;
+}
+
+/**
+ * CMake configure preset
+ *
+ * @remarks We only declare the subset we need
+ */
+interface ConfigurePreset extends BasePreset {
+	generator?: string;
+	binaryDir?: string;
+}
+
+/**
+ * CMake test preset
+ *
+ * @remarks We only declare the subset we need
+ */
+interface TestPreset extends BasePreset {
+	configurePreset?: string;
+	inheritConfigureEnvironment?: boolean;
+	configuration?: string;
+	execution?: {
+		jobs?: number;
+	};
+}
+
+/** All presets from a source dir */
+interface CmakePresets {
+	configurePresets: Map<string, ConfigurePreset>;
+	testPresets: Map<string, TestPreset>;
+}
+
+/**
+ * Resolved CMake test preset
+ */
+export interface CmakeTestPreset {
+	/** Preset name */
+	name: string;
+
+	/** Preset display name */
+	displayName: string;
+
+	/** Preset description */
+	description?: string;
+
+	/** Source directory containing the presets files */
+	sourceDir: string;
+
+	/** Build directory from the configure preset */
+	buildDir: string;
+
+	/** Build configuration (may be empty) */
+	configuration: string;
+
+	/** Environment variables set by the preset */
+	environment: { [name: string]: string };
+
+	/** Number of jobs to run in parallel, if defined */
+	jobs?: number;
+}
+
+/**
+ * Check whether a source dir has CMake presets
+ *
+ * @param sourceDir CMake source directory
+ */
+export function hasCmakePresets(sourceDir: string) {
+	return [CMAKE_PRESETS_FILE, CMAKE_USER_PRESETS_FILE].some((file) =>
+		fs.existsSync(path.join(sourceDir, file))
+	);
+}
+
+/**
+ * Get available test presets from a source dir
+ *
+ * Hidden presets, presets whose condition is false and presets without a
+ * build directory are excluded.
+ *
+ * @param sourceDir CMake source directory
+ *
+ * @return Resolved test presets
+ */
+export function getCmakeTestPresets(sourceDir: string): CmakeTestPreset[] {
+	const presets = loadCmakePresets(sourceDir);
+	const result: CmakeTestPreset[] = [];
+	for (const { name, hidden } of presets.testPresets.values()) {
+		if (hidden) continue;
+		const preset = resolveTestPreset(presets, sourceDir, name);
+		if (preset) result.push(preset);
+	}
+	return result;
+}
+
+/**
+ * Get a test preset from a source dir
+ *
+ * @param sourceDir CMake source directory
+ * @param name Test preset name
+ *
+ * @return Resolved test preset
+ */
+export function getCmakeTestPreset(
+	sourceDir: string,
+	name: string
+): CmakeTestPreset {
+	const presets = loadCmakePresets(sourceDir);
+	const preset = resolveTestPreset(presets, sourceDir, name);
+	if (!preset) {
+		throw new Error(
+			`Test preset '${name}' is not available in ${sourceDir}`
+		);
+	}
+	return preset;
+}
+
+/**
+ * Load presets files from a source dir, following `include` chains
+ *
+ * @param sourceDir CMake source directory
+ */
+function loadCmakePresets(sourceDir: string): CmakePresets {
+	const presets: CmakePresets = {
+		configurePresets: new Map(),
+		testPresets: new Map(),
+	};
+	const loaded = new Set<string>();
+	const presetsFile = path.join(sourceDir, CMAKE_PRESETS_FILE);
+	const userPresetsFile = path.join(sourceDir, CMAKE_USER_PRESETS_FILE);
+	if (fs.existsSync(presetsFile)) {
+		loadPresetsFile(presets, presetsFile, loaded);
+	}
+	if (fs.existsSync(userPresetsFile)) {
+		// User presets implicitly include the main presets file
+		loadPresetsFile(presets, userPresetsFile, loaded);
+	}
+	return presets;
+}
+
+/**
+ * Load a presets file and its included files
+ *
+ * @param presets Presets to load into
+ * @param file Presets file path
+ * @param loaded Set of already loaded files
+ */
+function loadPresetsFile(
+	presets: CmakePresets,
+	file: string,
+	loaded: Set<string>
+) {
+	const filePath = path.resolve(file);
+	if (loaded.has(filePath)) return;
+	loaded.add(filePath);
+
+	let data;
+	try {
+		data = JSON.parse(fs.readFileSync(filePath).toString());
+	} catch (e) {
+		throw new Error(`Error reading presets file ${filePath}: ${e}`);
+	}
+	const fileDir = path.dirname(filePath);
+	for (const include of data.include || []) {
+		loadPresetsFile(
+			presets,
+			path.resolve(fileDir, expandFileMacros(include, fileDir)),
+			loaded
+		);
+	}
+	for (const preset of data.configurePresets || []) {
+		presets.configurePresets.set(preset.name, { ...preset, fileDir });
+	}
+	for (const preset of data.testPresets || []) {
+		presets.testPresets.set(preset.name, { ...preset, fileDir });
+	}
+}
+
+/**
+ * Flatten a preset with its `inherits` chain
+ *
+ * Fields from the preset take precedence over inherited fields, and earlier
+ * parents take precedence over later ones. Environments are merged. Names,
+ * visibility and descriptions are not inherited.
+ *
+ * @param presets Presets by name
+ * @param name Preset name
+ * @param visiting Names of presets being flattened (for cycle detection)
+ */
+function flattenPreset<T extends BasePreset>(
+	presets: Map<string, T>,
+	name: string,
+	visiting = new Set<string>()
+): T | undefined {
+	const preset = presets.get(name);
+	if (!preset) return;
+	if (visiting.has(name)) {
+		throw new Error(`Circular inheritance in preset '${name}'`);
+	}
+	visiting.add(name);
+
+	const parents = ([] as string[])
+		.concat(preset.inherits || [])
+		.map((parent) => flattenPreset(presets, parent, visiting))
+		.filter((parent): parent is T => !!parent)
+		.reverse();
+	visiting.delete(name);
+
+	let result = {} as T;
+	let environment: PresetEnvironment = {};
+	for (const parent of [...parents, preset]) {
+		result = { ...result, ...parent };
+		environment = { ...environment, ...parent.environment };
+	}
+	return {
+		...result,
+		name: preset.name,
+		hidden: preset.hidden,
+		displayName: preset.displayName,
+		description: preset.description,
+		fileDir: preset.fileDir,
+		environment,
+	};
+}
+
+/**
+ * Resolve a test preset with its configure preset
+ *
+ * @param presets All presets
+ * @param sourceDir CMake source directory
+ * @param name Test preset name
+ *
+ * @return Resolved test preset, undefined if not available
+ */
+function resolveTestPreset(
+	presets: CmakePresets,
+	sourceDir: string,
+	name: string
+): CmakeTestPreset | undefined {
+	const testPreset = flattenPreset(presets.testPresets, name);
+	if (!testPreset || !testPreset.configurePreset) return;
+	const configurePreset = flattenPreset(
+		presets.configurePresets,
+		testPreset.configurePreset
+	);
+	if (!configurePreset || !configurePreset.binaryDir) return;
+
+	// Configure environment
+	const configureEnvironment = expandEnvironment(
+		configurePreset.environment || {},
+		getMacros(sourceDir, configurePreset)
+	);
+	if (
+		!evaluateCondition(
+			configurePreset.condition,
+			getMacros(sourceDir, configurePreset),
+			configureEnvironment
+		)
+	) {
+		return;
+	}
+
+	// Test environment
+	const testMacros = getMacros(sourceDir, testPreset, configurePreset);
+	const environment = expandEnvironment(
+		{
+			...(testPreset.inheritConfigureEnvironment !== false
+				? configurePreset.environment
+				: {}),
+			...testPreset.environment,
+		},
+		testMacros
+	);
+	if (!evaluateCondition(testPreset.condition, testMacros, environment)) {
+		return;
+	}
+
+	const binaryDir = expandMacros(
+		configurePreset.binaryDir,
+		getMacros(sourceDir, configurePreset),
+		configureEnvironment
+	);
+	return {
+		name: testPreset.name,
+		displayName: testPreset.displayName || testPreset.name,
+		description: testPreset.description,
+		sourceDir,
+		buildDir: path.resolve(sourceDir, binaryDir),
+		configuration: testPreset.configuration || '',
+		environment: getEnvironmentVariables(environment),
+		jobs: testPreset.execution?.jobs,
+	};
+}
+
+/**
+ * Get variables set by preset environment, ignoring unset variables
+ *
+ * @param environment Preset environment
+ */
+function getEnvironmentVariables(environment: PresetEnvironment) {
+	const variables: { [name: string]: string } = {};
+	for (const [name, value] of Object.entries(environment)) {
+		if (value !== null) variables[name] = value;
+	}
+	return variables;
+}
+
+/**
+ * Get macro values for a preset
+ *
+ * @param sourceDir CMake source directory
+ * @param preset Preset
+ * @param configurePreset Associated configure preset (for test presets)
+ */
+function getMacros(
+	sourceDir: string,
+	preset: BasePreset,
+	configurePreset?: ConfigurePreset
+) {
+	const generator =
+		(configurePreset || (preset as ConfigurePreset)).generator || '';
+	return new Map<string, string>([
+		['sourceDir', sourceDir],
+		['sourceParentDir', path.dirname(sourceDir)],
+		['sourceDirName', path.basename(sourceDir)],
+		['presetName', preset.name],
+		['generator', generator],
+		['hostSystemName', getHostSystemName()],
+		['fileDir', preset.fileDir],
+		['dollar', '$'],
+		['pathListSep', path.delimiter],
+	]);
+}
+
+/**
+ * Get host system name as reported by CMake
+ */
+function getHostSystemName() {
+	switch (os.platform()) {
+		case 'win32':
+			return 'Windows';
+		case 'darwin':
+			return 'Darwin';
+		default:
+			return os.type();
+	}
+}
+
+/**
+ * Expand macros in `include` file paths
+ *
+ * Only a limited set of macros is allowed in this context.
+ *
+ * @param file File path
+ * @param fileDir Directory of the including file
+ */
+function expandFileMacros(file: string, fileDir: string) {
+	return expandMacros(
+		file,
+		new Map([
+			['fileDir', fileDir],
+			['hostSystemName', getHostSystemName()],
+			['dollar', '$'],
+			['pathListSep', path.delimiter],
+		]),
+		{}
+	);
+}
+
+/**
+ * Expand environment values, resolving references between variables
+ *
+ * @param environment Preset environment
+ * @param macros Macro values
+ */
+function expandEnvironment(
+	environment: PresetEnvironment,
+	macros: Map<string, string>
+): PresetEnvironment {
+	const result: PresetEnvironment = {};
+	const expand = (name: string, visiting: Set<string>): string | null => {
+		if (name in result) return result[name];
+		const value = environment[name];
+		if (value === null || value === undefined) return null;
+		visiting.add(name);
+		const expanded = expandMacros(value, macros, {}, (varname) =>
+			varname in environment && !visiting.has(varname)
+				? expand(varname, visiting)
+				: undefined
+		);
+		visiting.delete(name);
+		result[name] = expanded;
+		return expanded;
+	};
+	for (const name in environment) {
+		expand(name, new Set());
+	}
+	return result;
+}
+
+/**
+ * Expand macros in preset string
+ *
+ * @param str String to expand
+ * @param macros Macro values
+ * @param environment Preset environment for `$env{}` macros
+ * @param lookup Optional lookup for `$env{}` macros (takes precedence)
+ */
+function expandMacros(
+	str: string,
+	macros: Map<string, string>,
+	environment: PresetEnvironment,
+	lookup?: (name: string) => string | null | undefined
+) {
+	return str.replace(MACRO_RE, (match, namespace, name) => {
+		switch (namespace) {
+			case 'env': {
+				const value = lookup?.(name) ?? environment[name];
+				return value ?? process.env[name] ?? '';
+			}
+			case 'penv':
+				return process.env[name] ?? '';
+			case 'vendor':
+				return match;
+			default:
+				return macros.get(name) ?? match;
+		}
+	});
+}
+
+/**
+ * Evaluate preset condition
+ *
+ * @param condition Preset condition
+ * @param macros Macro values
+ * @param environment Preset environment
+ */
+function evaluateCondition(
+	condition: PresetCondition | undefined,
+	macros: Map<string, string>,
+	environment: PresetEnvironment
+): boolean {
+	if (condition === undefined || condition === null) return true;
+	if (typeof condition === 'boolean') return condition;
+
+	const expand = (str = '') => expandMacros(str, macros, environment);
+	const evaluate = (c: PresetCondition) =>
+		evaluateCondition(c, macros, environment);
+	switch (condition.type) {
+		case 'const':
+			return !!condition.value;
+		case 'equals':
+			return expand(condition.lhs) === expand(condition.rhs);
+		case 'notEquals':
+			return expand(condition.lhs) !== expand(condition.rhs);
+		case 'inList':
+			return (condition.list || [])
+				.map(expand)
+				.includes(expand(condition.string));
+		case 'notInList':
+			return !(condition.list || [])
+				.map(expand)
+				.includes(expand(condition.string));
+		case 'matches':
+			return new RegExp(condition.regex || '').test(
+				expand(condition.string)
+			);
+		case 'notMatches':
+			return !new RegExp(condition.regex || '').test(
+				expand(condition.string)
+			);
+		case 'anyOf':
+			return (condition.conditions || []).some(evaluate);
+		case 'allOf':
+			return (condition.conditions || []).every(evaluate);
+		case 'not':
+			return !evaluate(condition.condition ?? null);
+		default:
+			return true;
+	}
+}
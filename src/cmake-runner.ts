@@ -10,6 +10,15 @@ import * as split2 from 'split2';
 import { CmakeTestInfo } from './interfaces/cmake-test-info';
 import { CmakeTestResult } from './interfaces/cmake-test-result';
 import { CmakeTestProcess } from './interfaces/cmake-test-process';
+import { parseCmakeJunitFile } from './cmake-junit';
+import { CmakeTestPreset } from './cmake-presets';
+import {
+	RemoteTransport,
+	getRemoteCommand,
+	toLocalCmakeTests,
+	toLocalText,
+	toRemotePath,
+} from './remote-transport';
 
 const { split } = require('split-cmd');
 
@@ -22,29 +31,90 @@ export const CMAKE_CACHE_FILE = 'CMakeCache.txt';
 /** Regexp for CTest path in CMake cache file */
 const CTEST_RE = /^CMAKE_CTEST_COMMAND:INTERNAL=(.*)$/m;
 
+/** Regexp for CMake path in CMake cache file */
+const CMAKE_RE = /^CMAKE_COMMAND:INTERNAL=(.*)$/m;
+
+/** Regexp for configurations of multi-config generators in CMake cache file */
+const CMAKE_CONFIGURATION_TYPES_RE = /^CMAKE_CONFIGURATION_TYPES:\w+=(.*)$/m;
+
+/** Regexp for multi-config generators in CMake cache file */
+const CMAKE_MULTI_CONFIG_GENERATOR_RE =
+	/^CMAKE_GENERATOR:INTERNAL=(?:Ninja Multi-Config|Visual Studio .*|Xcode)$/m;
+
+/** Regexp for environment modification, e.g. `PATH=path_list_prepend:/bin` */
+export const ENVIRONMENT_MODIFICATION_RE = /^([^=]+)=([a-z_]+):([^]*)$/;
+
+/** Regexp for cross-compiling emulator in CMake cache file */
+const CMAKE_CROSSCOMPILING_EMULATOR_RE =
+	/^CMAKE_CROSSCOMPILING_EMULATOR:\w+=(.*)$/m;
+
+/** Regexp for CTest version output */
+const CTEST_VERSION_RE = /^ctest version (\d+)\.(\d+)/m;
+
+/** Minimum CTest version supporting `--output-junit` */
+const CTEST_JUNIT_MIN_VERSION = [3, 21];
+
 /** Regexp for test start line */
 const CTEST_START_RE = /^\s+Start\s+(\d+): (.+)/;
 
 /** Regexp for test output line */
 const CTEST_OUTPUT_RE = /^(\d+): (.*)$/;
 
+/*
+ * Note: test end lines of repeated tests have no `n/m` progress prefix, except
+ * for the last iteration
+ */
+
 /** Regexp for test passed line */
-const CTEST_PASSED_RE = /^\s*\d+\/\d+ Test\s+#(\d+): (.+) \.\.\.+   Passed/;
+const CTEST_PASSED_RE =
+	/^\s*(?:\d+\/\d+ )?(?:Test|MemCheck)\s+#(\d+): (.+) \.\.\.+   Passed/;
 
 /** Regexp for test skipped line */
 const CTEST_SKIPPED_RE =
-	/^\s*\d+\/\d+ Test\s+#(\d+): (.+) \.\.\.+\*\*\*Skipped/;
+	/^\s*(?:\d+\/\d+ )?(?:Test|MemCheck)\s+#(\d+): (.+) \.\.\.+\*\*\*Skipped/;
 
 /** Regexp for test disabled line */
 const CTEST_DISABLED_RE =
-	/^\s*\d+\/\d+ Test\s+#(\d+): (.+) \.\.\.+\*\*\*Not Run \(Disabled\)/;
+	/^\s*(?:\d+\/\d+ )?(?:Test|MemCheck)\s+#(\d+): (.+) \.\.\.+\*\*\*Not Run \(Disabled\)/;
+
+/** Regexp for test timeout line */
+const CTEST_TIMEOUT_RE =
+	/^\s*(?:\d+\/\d+ )?(?:Test|MemCheck)\s+#(\d+): (.+) \.\.\.+\*\*\*Timeout/;
+
+/**
+ * Regexp for test exception line, e.g. `***Exception: SegFault` or
+ * `Subprocess aborted***Exception:`
+ */
+const CTEST_EXCEPTION_RE =
+	/^\s*(?:\d+\/\d+ )?(?:Test|MemCheck)\s+#(\d+): (.+?) \.\.\.+(.*?)\*\*\*Exception:(.*?)\s+\d+(?:\.\d+)? sec$/;
+
+/** Regexp for test not run line */
+const CTEST_NOT_RUN_RE =
+	/^\s*(?:\d+\/\d+ )?(?:Test|MemCheck)\s+#(\d+): (.+) \.\.\.+\*\*\*Not Run/;
 
 /** Regexp for test failed line */
-const CTEST_FAILED_RE = /^\s*\d+\/\d+ Test\s+#(\d+): (.+) \.\.\.+/;
+const CTEST_FAILED_RE =
+	/^\s*(?:\d+\/\d+ )?(?:Test|MemCheck)\s+#(\d+): (.+) \.\.\.+/;
 
 /** Regexpr for test duration */
 const CTEST_DURATION_RE = /\s+(\d+(?:\.\d+)) sec$/;
 
+/** Regexp for test timeout in test output */
+const CTEST_TIMEOUT_VALUE_RE = /^Test timeout computed to be: (\d+(?:\.\d+)?)/;
+
+/** Regexp for failed fixture dependencies line */
+const CTEST_FIXTURES_RE = /^Failed test dependencies: (.*)$/;
+
+/** Regexp for reasons why a test did not run */
+const CTEST_NOT_RUN_REASON_RE =
+	/^(Unable to find executable: .*|Unable to find required file: .*)$/;
+
+/** Prefix of CTest JUnit skip messages for skipped tests */
+const CTEST_JUNIT_SKIPPED_RE = /^SKIP_/;
+
+/** CTest JUnit skip message for failed fixture dependencies */
+const CTEST_JUNIT_FIXTURES_MESSAGE = 'Fixture dependency failed';
+
 /** Generic test event */
 export type CmakeTestEvent =
 	| CmakeTestStartEvent
@@ -56,6 +126,9 @@ export interface CmakeTestStartEvent {
 	type: 'start';
 	index: number;
 	name: string;
+
+	/** 1-based iteration number, greater than 1 when tests are repeated */
+	iteration: number;
 }
 
 /** Test output event */
@@ -73,8 +146,49 @@ export interface CmakeTestEndEvent {
 	name: string;
 	state: 'passed' | 'failed' | 'skipped';
 	duration?: number;
+
+	/** Full test output, when available (e.g. from JUnit report) */
+	output?: string;
+
+	/** 1-based number of the last iteration, when tests are repeated */
+	iteration?: number;
+
+	/** Reason why the test did not pass, if known */
+	reason?: CmakeTestEndReason;
+
+	/** Reason details, e.g. exception name or missing file */
+	details?: string;
+
+	/** Test timeout in seconds, if known */
+	timeout?: number;
+
+	/**
+	 * Whether the event is provisional, i.e. followed by a final end event for
+	 * the same test once the process exits
+	 */
+	provisional?: boolean;
 }
 
+/**
+ * Reason why a test did not pass
+ *
+ * - `failed`: the test failed
+ * - `timeout`: the test exceeded its timeout
+ * - `exception`: the test crashed, e.g. on a signal
+ * - `skipped`: the test was skipped, e.g. with `SKIP_RETURN_CODE`
+ * - `disabled`: the test is disabled with the `DISABLED` property
+ * - `notRun`: the test could not run, e.g. missing executable or required file
+ * - `requiredFixtures`: the setup tests of required fixtures failed
+ */
+export type CmakeTestEndReason =
+	| 'failed'
+	| 'timeout'
+	| 'exception'
+	| 'skipped'
+	| 'disabled'
+	| 'notRun'
+	| 'requiredFixtures';
+
 /** Error thrown when CMake cache file is not found in build dir */
 export class CacheNotFoundError extends Error {
 	/** @see https://github.com/microsoft/TypeScript-wiki/blob/master/Breaking-Changes.md#extending-built-ins-like-error-array-and-map-may-no-longer-work */
@@ -93,12 +207,16 @@ export class CacheNotFoundError extends Error {
  * @param cwd CMake build directory to run the command within
  * @param buildConfig Build configuration (may be empty)
  * @param extraArgs Extra arguments passed to CTest
+ * @param preset Test preset (optional)
+ * @param transport Remote transport (optional)
  */
 export function loadCmakeTests(
 	ctestPath: string,
 	cwd: string,
 	buildConfig?: string,
-	extraArgs: string = ''
+	extraArgs: string = '',
+	preset?: CmakeTestPreset,
+	transport?: RemoteTransport
 ): Promise<CmakeTestInfo[]> {
 	return new Promise<CmakeTestInfo[]>((resolve, reject) => {
 		try {
@@ -112,14 +230,18 @@ export function loadCmakeTests(
 			const args = split(extraArgs);
 
 			// Execute the ctest command with `--show-only=json-v1` option to get the test list in JSON format
-			const ctestProcess = child_process.spawn(
+			const ctestProcess = spawnCmakeProcess(
 				ctestPath,
 				[
 					'--show-only=json-v1',
+					...(!!preset ? ['--preset', preset.name] : []),
 					...(!!buildConfig ? ['--build-config', buildConfig] : []),
 					...args,
 				],
-				{ cwd }
+				// Presets are resolved relative to the source dir
+				preset ? preset.sourceDir : cwd,
+				undefined,
+				transport
 			);
 			if (!ctestProcess.pid) {
 				// Something failed, e.g. the executable or cwd doesn't exist
@@ -134,7 +256,15 @@ export function loadCmakeTests(
 					try {
 						const data = JSON.parse(out.join(''));
 						const tests: CmakeTestInfo[] = data.tests;
-						resolve(tests as CmakeTestInfo[]);
+						tests.forEach(
+							(test) =>
+								(test.backtraceGraph = data.backtraceGraph)
+						);
+						resolve(
+							transport
+								? toLocalCmakeTests(tests, transport)
+								: tests
+						);
 					} catch (e) {
 						reject(
 							new Error(
@@ -171,6 +301,27 @@ export type CmakeTestRunOptions = {
 
 	/** Extra arguments passed to CTest */
 	extraArgs: string;
+
+	/** JUnit output file path (CTest >= 3.21, may be empty) */
+	junitFile?: string;
+
+	/** Regexp of labels to include (may be empty) */
+	includeLabels?: string;
+
+	/** Regexp of labels to exclude (may be empty) */
+	excludeLabels?: string;
+
+	/** Test preset (optional) */
+	preset?: CmakeTestPreset;
+
+	/** Repeat mode, e.g. `until-fail:10` (see `ctest --repeat`, may be empty) */
+	repeat?: string;
+
+	/** Run tests through the memory checker (see `ctest -T MemCheck`) */
+	memcheck?: boolean;
+
+	/** Remote transport (optional) */
+	transport?: RemoteTransport;
 };
 
 /**
@@ -188,28 +339,51 @@ export function scheduleCmakeTestProcess(
 		parallelJobs,
 		buildConfig,
 		extraArgs,
+		junitFile,
+		includeLabels,
+		excludeLabels,
+		preset,
+		repeat,
+		memcheck,
+		transport,
 	}: CmakeTestRunOptions
 ): CmakeTestProcess {
 	// Build options
 	const testList = testIndexes.length
 		? ['-I', `0,0,0,${testIndexes.join(',')}`]
 		: [];
-	const jobs = parallelJobs > 1 ? ['-j', parallelJobs] : [];
+	const jobs = parallelJobs > 1 ? ['-j', `${parallelJobs}`] : [];
 
 	// Split args string into array for spawn
 	const args = split(extraArgs);
 
-	const testProcess = child_process.spawn(
+	const testProcess = spawnCmakeProcess(
 		ctestPath,
 
 		[
+			...(!!preset ? ['--preset', preset.name] : []),
 			...(!!buildConfig ? ['--build-config', buildConfig] : []),
 			'-V',
+			...(!!junitFile
+				? [
+						'--output-junit',
+						transport
+							? toRemotePath(junitFile, transport)
+							: junitFile,
+					]
+				: []),
+			...(!!includeLabels ? ['-L', includeLabels] : []),
+			...(!!excludeLabels ? ['-LE', excludeLabels] : []),
+			...(!!repeat ? ['--repeat', repeat] : []),
+			...(!!memcheck ? ['-T', 'MemCheck'] : []),
 			...jobs,
 			...testList,
 			...args,
 		],
-		{ cwd, env }
+		// Presets are resolved relative to the source dir
+		preset ? preset.sourceDir : cwd,
+		env,
+		transport
 	);
 	if (!testProcess.pid) {
 		// Something failed, e.g. the executable or cwd doesn't exist
@@ -222,20 +396,111 @@ export function scheduleCmakeTestProcess(
 /**
  * Execute a previously scheduled CMake test process
  *
+ * When a JUnit output file is given, final test states, durations and outputs
+ * are read from the JUnit report once the process exits. Start and output
+ * events are still streamed from the process output. If the report cannot be
+ * read, end events parsed from the process output are used instead.
+ *
+ * When tests are repeated, only the end event of the last iteration of each
+ * test is final. End events are also deferred in memcheck mode, as CTest writes
+ * memory checker logs after each test ends.
+ *
+ * Deferred end events are raised as provisional events as soon as they are
+ * parsed, so that test states are updated live, then as final events once the
+ * process exits.
+ *
+ * End events of tests that did not run wait for their reason, which CTest
+ * writes on stderr.
+ *
  * @param testProcess Scheduled test process
  * @param onEvent Event callback
+ * @param options Run options passed to the scheduled process
  */
 export function executeCmakeTestProcess(
 	testProcess: CmakeTestProcess,
-	onEvent: (event: CmakeTestEvent) => void
+	onEvent: (event: CmakeTestEvent) => void,
+	{
+		junitFile,
+		repeat,
+		memcheck,
+		transport,
+	}: Partial<CmakeTestRunOptions> = {}
 ): Promise<CmakeTestResult> {
 	return new Promise<CmakeTestResult>((resolve, reject) => {
 		try {
+			// Test name to index map, used to match JUnit test cases
+			const nameToIndex = new Map<string, number>();
+
+			// Number of iterations by test index
+			const iterations = new Map<number, number>();
+
+			// Last end events parsed from process output by test index,
+			// deferred in JUnit, repeat or memcheck mode
+			const deferred = !!(junitFile || repeat || memcheck);
+			const endEvents = new Map<number, CmakeTestEndEvent>();
+			const onEnd = (event: CmakeTestEndEvent) => {
+				if (deferred) {
+					endEvents.set(event.index, event);
+					onEvent({ ...event, provisional: true });
+				}
+				if (event.reason === 'notRun' && !event.details) {
+					// Wait for the reason written on stderr
+					notRunEvents.push(event);
+					matchNotRunReasons();
+				} else if (!deferred) {
+					onEvent(event);
+				}
+			};
+
+			// Reasons why tests did not run are written in test order on
+			// stderr, match them with end events as both streams progress
+			const notRunReasons: string[] = [];
+			const notRunEvents: CmakeTestEndEvent[] = [];
+			const matchNotRunReasons = (flush = false) => {
+				while (notRunEvents.length && (notRunReasons.length || flush)) {
+					const event = notRunEvents.shift()!;
+					event.details = notRunReasons.shift();
+					if (!deferred) onEvent(event);
+				}
+			};
+
+			// Test timeouts and failed fixture dependencies by test index
+			const timeouts = new Map<number, number>();
+			const failedFixtures = new Map<number, string>();
+			let lastIndex: number | undefined;
+
+			const onDeferredEvent = (event: CmakeTestEvent) =>
+				onEvent(
+					event.type === 'end'
+						? { ...event, iteration: iterations.get(event.index) }
+						: event
+				);
+
+			// Output paths are translated to local view
+			const toLocal = (line: string) =>
+				transport ? toLocalText(line, transport) : line;
+
+			// Reasons why tests did not run
+			const stderrEnd = new Promise<void>((resolve) =>
+				testProcess.stderr
+					.pipe(split2())
+					.on('data', (data: string) => {
+						const line = toLocal(data);
+						const matches = line.match(CTEST_NOT_RUN_REASON_RE);
+						if (matches) {
+							notRunReasons.push(matches[1]);
+							matchNotRunReasons();
+						}
+					})
+					.on('end', resolve)
+			);
+
 			// Capture result on stdout
 			testProcess.stdout
 				.pipe(split2())
-				.on('data', (line: string) => {
+				.on('data', (data: string) => {
 					// Parse each output line and raise matching events
+					const line = toLocal(data);
 					const durationMatches = line.match(CTEST_DURATION_RE);
 					const duration = durationMatches
 						? Number.parseFloat(durationMatches[1]) * 1000
@@ -245,19 +510,33 @@ export function executeCmakeTestProcess(
 						// Test start
 						const index = Number.parseInt(matches[1]);
 						const name = matches[2];
-						onEvent({ type: 'start', index, name });
+						const iteration = (iterations.get(index) || 0) + 1;
+						nameToIndex.set(name, index);
+						iterations.set(index, iteration);
+						lastIndex = index;
+						failedFixtures.delete(index);
+						onEvent({ type: 'start', index, name, iteration });
 						onEvent({ type: 'output', index, line });
 					} else if ((matches = line.match(CTEST_OUTPUT_RE))) {
 						// Test output
 						const index = Number.parseInt(matches[1]);
 						const text = matches[2];
+						const timeoutMatches = text.match(
+							CTEST_TIMEOUT_VALUE_RE
+						);
+						if (timeoutMatches) {
+							timeouts.set(
+								index,
+								Number.parseFloat(timeoutMatches[1])
+							);
+						}
 						onEvent({ type: 'output', index, line, text });
 					} else if ((matches = line.match(CTEST_PASSED_RE))) {
 						// Test passed
 						const index = Number.parseInt(matches[1]);
 						const name = matches[2];
 						onEvent({ type: 'output', index, line });
-						onEvent({
+						onEnd({
 							type: 'end',
 							index,
 							name,
@@ -272,24 +551,115 @@ export function executeCmakeTestProcess(
 						const index = Number.parseInt(matches[1]);
 						const name = matches[2];
 						onEvent({ type: 'output', index, line });
-						onEvent({ type: 'end', index, name, state: 'skipped' });
+						onEnd({
+							type: 'end',
+							index,
+							name,
+							state: 'skipped',
+							reason: line.match(CTEST_DISABLED_RE)
+								? 'disabled'
+								: 'skipped',
+						});
+					} else if ((matches = line.match(CTEST_TIMEOUT_RE))) {
+						// Test timed out
+						const index = Number.parseInt(matches[1]);
+						const name = matches[2];
+						onEvent({ type: 'output', index, line });
+						onEnd({
+							type: 'end',
+							index,
+							name,
+							duration,
+							state: 'failed',
+							reason: 'timeout',
+							timeout: timeouts.get(index),
+						});
+					} else if ((matches = line.match(CTEST_EXCEPTION_RE))) {
+						// Test crashed
+						const index = Number.parseInt(matches[1]);
+						const name = matches[2];
+						onEvent({ type: 'output', index, line });
+						onEnd({
+							type: 'end',
+							index,
+							name,
+							duration,
+							state: 'failed',
+							reason: 'exception',
+							details:
+								matches[4].trim() ||
+								matches[3].trim() ||
+								undefined,
+						});
+					} else if ((matches = line.match(CTEST_NOT_RUN_RE))) {
+						// Test did not run
+						const index = Number.parseInt(matches[1]);
+						const name = matches[2];
+						onEvent({ type: 'output', index, line });
+						onEnd({
+							type: 'end',
+							index,
+							name,
+							state: 'failed',
+							reason: failedFixtures.has(index)
+								? 'requiredFixtures'
+								: 'notRun',
+							details: failedFixtures.get(index),
+						});
 					} else if ((matches = line.match(CTEST_FAILED_RE))) {
 						// Test failed
 						const index = Number.parseInt(matches[1]);
 						const name = matches[2];
 						onEvent({ type: 'output', index, line });
-						onEvent({
+						onEnd({
 							type: 'end',
 							index,
 							name,
 							duration,
 							state: 'failed',
+							reason: 'failed',
 						});
+					} else if (
+						lastIndex !== undefined &&
+						(matches = line.match(CTEST_FIXTURES_RE))
+					) {
+						// Unprefixed line following the start line
+						failedFixtures.set(lastIndex, matches[1]);
 					}
 				})
 				.on('end', () => {
-					// All done
-					resolve({ code: testProcess.exitCode });
+					// Wait for process exit so that the exit code and the JUnit
+					// file are available
+					const done = () =>
+						stderrEnd
+							.then(() => {
+								// Release tests still waiting for their reason
+								// once stderr is complete
+								matchNotRunReasons(true);
+								if (
+									!junitFile ||
+									!emitJunitEndEvents(
+										junitFile,
+										nameToIndex,
+										endEvents,
+										onDeferredEvent,
+										toLocal
+									)
+								) {
+									// Use events parsed from process output
+									endEvents.forEach(onDeferredEvent);
+								}
+								resolve({ code: testProcess.exitCode });
+							})
+							.catch(reject);
+					if (
+						testProcess.exitCode !== null ||
+						testProcess.signalCode !== null
+					) {
+						done();
+					} else {
+						testProcess.once('exit', done);
+					}
 				});
 		} catch (e) {
 			reject(e);
@@ -297,6 +667,116 @@ export function executeCmakeTestProcess(
 	});
 }
 
+/**
+ * Raise end events from CTest JUnit report
+ *
+ * JUnit reports don't tell timeouts and crashes from plain failures, so
+ * failure reasons are taken from the end events parsed from process output.
+ * Tests missing from the report get their parsed end events.
+ *
+ * @param junitFile JUnit output file
+ * @param nameToIndex Test name to index map
+ * @param parsedEvents End events parsed from process output, by test index
+ * @param onEvent Event callback
+ * @param toLocal Output translation to local view
+ *
+ * @return Whether the JUnit file was successfully processed
+ */
+function emitJunitEndEvents(
+	junitFile: string,
+	nameToIndex: Map<string, number>,
+	parsedEvents: Map<number, CmakeTestEndEvent>,
+	onEvent: (event: CmakeTestEvent) => void,
+	toLocal: (text: string) => string
+) {
+	let testcases;
+	try {
+		testcases = parseCmakeJunitFile(junitFile);
+	} catch (e) {
+		return false;
+	} finally {
+		// Report is no longer needed
+		fs.rm(junitFile, { force: true }, () => {});
+	}
+
+	const reported = new Set<number>();
+	for (const testcase of testcases) {
+		// Test names are translated like start lines
+		const name = toLocal(testcase.name);
+		const index = nameToIndex.get(name);
+		if (index === undefined) continue;
+		reported.add(index);
+
+		const { duration, message } = testcase;
+		const output = toLocal(testcase.output);
+		const parsedEvent = parsedEvents.get(index);
+		switch (testcase.status) {
+			case 'run':
+				onEvent({
+					type: 'end',
+					index,
+					name,
+					state: 'passed',
+					duration,
+					output,
+				});
+				break;
+			case 'fail':
+				onEvent({
+					type: 'end',
+					index,
+					name,
+					state: 'failed',
+					duration,
+					output,
+					reason: parsedEvent?.reason || 'failed',
+					details: parsedEvent?.details,
+					timeout: parsedEvent?.timeout,
+				});
+				break;
+			case 'disabled':
+				onEvent({
+					type: 'end',
+					index,
+					name,
+					state: 'skipped',
+					output,
+					reason: 'disabled',
+				});
+				break;
+			default:
+				if (!message || CTEST_JUNIT_SKIPPED_RE.test(message)) {
+					onEvent({
+						type: 'end',
+						index,
+						name,
+						state: 'skipped',
+						output,
+						reason: 'skipped',
+					});
+				} else {
+					// Test could not run
+					onEvent({
+						type: 'end',
+						index,
+						name,
+						state: 'failed',
+						output,
+						reason:
+							message === CTEST_JUNIT_FIXTURES_MESSAGE
+								? 'requiredFixtures'
+								: 'notRun',
+						details: parsedEvent?.details || message,
+					});
+				}
+		}
+	}
+	parsedEvents.forEach((event, index) => {
+		if (!reported.has(index)) onEvent(event);
+	});
+	return true;
+}
+
 /**
  * Cancel a previously scheduled CMake test process
  *
@@ -306,20 +786,138 @@ export function cancelCmakeTestProcess(testProcess: CmakeTestProcess) {
 	testProcess.kill();
 }
 
+/**
+ * CMake build options
+ */
+export type CmakeBuildOptions = {
+	/** CMake command path */
+	cmakePath: string;
+
+	/** CMake build directory */
+	cwd: string;
+
+	/** Environment */
+	env: NodeJS.ProcessEnv;
+
+	/** Number of jobs to run in parallel */
+	parallelJobs: number;
+
+	/** Build configuration (may be empty) */
+	buildConfig: string;
+
+	/** Targets to build (empty for default target) */
+	targets: string[];
+
+	/** Remote transport (optional) */
+	transport?: RemoteTransport;
+};
+
+/**
+ * Schedule a CMake build process
+ *
+ * @param options Build options
+ */
+export function scheduleCmakeBuildProcess({
+	cmakePath,
+	cwd,
+	env,
+	parallelJobs,
+	buildConfig,
+	targets,
+	transport,
+}: CmakeBuildOptions): CmakeTestProcess {
+	const buildProcess = spawnCmakeProcess(
+		cmakePath,
+		[
+			'--build',
+			transport ? toRemotePath(cwd, transport) : cwd,
+			...(!!buildConfig ? ['--config', buildConfig] : []),
+			...(targets.length ? ['--target', ...targets] : []),
+			...(parallelJobs > 1 ? ['--parallel', `${parallelJobs}`] : []),
+		],
+		cwd,
+		env,
+		transport
+	);
+	if (!buildProcess.pid) {
+		// Something failed, e.g. the executable or cwd doesn't exist
+		throw new Error(`Cannot run build`);
+	}
+
+	return buildProcess;
+}
+
+/**
+ * Execute a previously scheduled CMake build process
+ *
+ * @param buildProcess Scheduled build process
+ * @param onLine Output line callback (stdout and stderr)
+ * @param options Build options passed to the scheduled process
+ */
+export function executeCmakeBuildProcess(
+	buildProcess: CmakeTestProcess,
+	onLine: (line: string) => void,
+	{ transport }: Partial<CmakeBuildOptions> = {}
+): Promise<CmakeTestResult> {
+	return new Promise<CmakeTestResult>((resolve, reject) => {
+		try {
+			// Output paths are translated to local view
+			const onData = (line: string) =>
+				onLine(transport ? toLocalText(line, transport) : line);
+			buildProcess.stdout.pipe(split2()).on('data', onData);
+			buildProcess.stderr.pipe(split2()).on('data', onData);
+			buildProcess.on('error', reject);
+			buildProcess.on('close', (code) => resolve({ code }));
+		} catch (e) {
+			reject(e);
+		}
+	});
+}
+
+/**
+ * Spawn CMake or CTest process, through the remote transport if any
+ *
+ * @param program Program path, in remote view with a transport
+ * @param args Program arguments
+ * @param cwd Working directory
+ * @param env Environment (optional)
+ * @param transport Remote transport (optional)
+ */
+function spawnCmakeProcess(
+	program: string,
+	args: string[],
+	cwd: string,
+	env?: NodeJS.ProcessEnv,
+	transport?: RemoteTransport
+) {
+	if (!transport) return child_process.spawn(program, args, { cwd, env });
+
+	const [command, commandArgs] = getRemoteCommand(
+		transport,
+		program,
+		args,
+		cwd,
+		env
+	);
+	return child_process.spawn(command, commandArgs, { cwd, env });
+}
+
 /**
  * Get debug configuration for a single CMake test
  *
  * @param test Test to debug
+ * @param extraArgs Extra arguments appended to the test command
+ * @param baseEnv Environment CTest would run the test within
  */
 export function getCmakeTestDebugConfiguration(
-	test: CmakeTestInfo
+	test: CmakeTestInfo,
+	extraArgs: string[] = [],
+	baseEnv: NodeJS.ProcessEnv = process.env
 ): Partial<vscode.DebugConfiguration> {
-	const [command, ...args] = test.command;
-	const WORKING_DIRECTORY = test.properties.find(
-		(p) => p.name === 'WORKING_DIRECTORY'
-	);
-	const cwd = WORKING_DIRECTORY ? WORKING_DIRECTORY.value : undefined;
-	const env = getCmakeTestEnvironmentVariables(test);
+	const [command, ...testArgs] = test.command;
+	const args = [...testArgs, ...extraArgs];
+	const cwd = getCmakeTestStringProperty(test, 'WORKING_DIRECTORY');
+	const env = getCmakeTestEnvironmentVariables(test, baseEnv);
 	return {
 		name: `CTest ${test.name}`,
 		program: command,
@@ -360,26 +958,460 @@ export function extractCtestPath(cacheFilePath: string) {
 	return match[1];
 }
 
+/**
+ * Get CMake command path from CMakeCache.txt
+ *
+ * @param cwd CMake build directory
+ */
+export function getCmakePath(cwd: string) {
+	// Check that CMakeCache.txt file exists in cwd
+	const cacheFilePath = path.join(cwd, CMAKE_CACHE_FILE);
+	if (!fs.existsSync(cacheFilePath)) {
+		throw new CacheNotFoundError(
+			`CMake cache file ${cacheFilePath} does not exist`
+		);
+	}
+	return extractCmakePath(cacheFilePath);
+}
+
+/**
+ * Extract CMake path from cache file.
+ *
+ * @param cacheFilePath Path of the CMake cache file
+ */
+export function extractCmakePath(cacheFilePath: string) {
+	const match = fs.readFileSync(cacheFilePath).toString().match(CMAKE_RE);
+	if (!match) {
+		throw new Error(
+			`CMake path not found in CMake cache file ${cacheFilePath}`
+		);
+	}
+	return match[1];
+}
+
+/**
+ * Get build configurations of multi-config generators from CMakeCache.txt
+ *
+ * @param cwd CMake build directory
+ *
+ * @return Configuration names, empty for single-config generators
+ */
+export function getCmakeConfigurationTypes(cwd: string) {
+	const cacheFilePath = path.join(cwd, CMAKE_CACHE_FILE);
+	if (!fs.existsSync(cacheFilePath)) return [];
+	const cache = fs.readFileSync(cacheFilePath).toString();
+	if (!CMAKE_MULTI_CONFIG_GENERATOR_RE.test(cache)) return [];
+	const match = cache.match(CMAKE_CONFIGURATION_TYPES_RE);
+	if (!match) return [];
+	return match[1].split(';').filter((configuration) => !!configuration);
+}
+
+/**
+ * Get cross-compiling emulator from CMakeCache.txt
+ *
+ * @param cwd CMake build directory
+ *
+ * @return Emulator program & arguments, empty if none
+ */
+export function getCmakeCrossCompilingEmulator(cwd: string) {
+	const cacheFilePath = path.join(cwd, CMAKE_CACHE_FILE);
+	if (!fs.existsSync(cacheFilePath)) return [];
+	const match = fs
+		.readFileSync(cacheFilePath)
+		.toString()
+		.match(CMAKE_CROSSCOMPILING_EMULATOR_RE);
+	if (!match) return [];
+	return match[1].split(';').filter((arg) => !!arg);
+}
+
+/** CTest version cache, by CTest command line */
+const ctestVersions = new Map<string, Promise<number[] | undefined>>();
+
+/**
+ * Get CTest version
+ *
+ * @param ctestPath CTest command path
+ * @param transport Remote transport (optional)
+ *
+ * @return Version numbers (major, minor), undefined if unknown
+ */
+export function getCtestVersion(
+	ctestPath: string,
+	transport?: RemoteTransport
+): Promise<number[] | undefined> {
+	const [command, args] = transport
+		? getRemoteCommand(transport, ctestPath, ['--version'])
+		: [ctestPath, ['--version']];
+	const key = [command, ...args].join(' ');
+	let version = ctestVersions.get(key);
+	if (!version) {
+		version = new Promise((resolve) => {
+			child_process.execFile(command, args, (error, stdout) => {
+				const match = !error && stdout.match(CTEST_VERSION_RE);
+				resolve(
+					match
+						? [Number.parseInt(match[1]), Number.parseInt(match[2])]
+						: undefined
+				);
+			});
+		});
+		ctestVersions.set(key, version);
+	}
+	return version;
+}
+
+/**
+ * Check whether CTest supports JUnit output (CTest >= 3.21)
+ *
+ * @param ctestPath CTest command path
+ * @param transport Remote transport (optional)
+ */
+export async function isJunitOutputSupported(
+	ctestPath: string,
+	transport?: RemoteTransport
+) {
+	const version = await getCtestVersion(ctestPath, transport);
+	if (!version) return false;
+	const [major, minor] = version;
+	const [minMajor, minMinor] = CTEST_JUNIT_MIN_VERSION;
+	return major > minMajor || (major === minMajor && minor >= minMinor);
+}
+
+/** Counter for unique JUnit output file names */
+let junitFileCounter = 0;
+
+/**
+ * Get a unique JUnit output file path for a test run
+ *
+ * @param cwd CMake build directory
+ */
+export function getJunitOutputFile(cwd: string) {
+	return path.join(
+		cwd,
+		'Testing',
+		'Temporary',
+		`CMakeTestExplorer-${process.pid}-${++junitFileCounter}.xml`
+	);
+}
+
 /**
  * Get environment variables defined for a CMake test
  *
+ * This applies the `ENVIRONMENT` property then the `ENVIRONMENT_MODIFICATION`
+ * operations, following CTest semantics. Unset variables have an undefined
+ * value.
+ *
  * @param test CMake test info
+ * @param baseEnv Environment CTest runs within, for modifications of inherited
+ * variables
+ *
+ * @return Variables changed by the test, undefined if none
  */
 export function getCmakeTestEnvironmentVariables(
-	test: CmakeTestInfo
+	test: CmakeTestInfo,
+	baseEnv: NodeJS.ProcessEnv = process.env
 ): NodeJS.ProcessEnv | undefined {
-	const ENVIRONMENT = test.properties.find((p) => p.name === 'ENVIRONMENT');
-	if (!ENVIRONMENT) return;
-
-	const value = ENVIRONMENT.value as string[];
-	return value.reduce(
-		(acc, v) => {
-			const m = v.match(/^(.*)=(.*)$/);
-			if (m) {
-				acc[m[1]] = m[2];
-			}
-			return acc;
-		},
-		{} as { [key: string]: string }
+	const environment = getCmakeTestListProperty(test, 'ENVIRONMENT');
+	const modifications = getCmakeTestListProperty(
+		test,
+		'ENVIRONMENT_MODIFICATION'
 	);
+	if (!environment.length && !modifications.length) return;
+
+	// Values may contain `=`, names may not
+	const env: NodeJS.ProcessEnv = {};
+	for (const entry of environment) {
+		const index = entry.indexOf('=');
+		if (index > 0) {
+			env[entry.substring(0, index)] = entry.substring(index + 1);
+		}
+	}
+
+	// Modifications apply on top of the above, `reset` reverts to these values
+	const initialEnv = { ...baseEnv, ...env };
+	for (const entry of modifications) {
+		const matches = entry.match(ENVIRONMENT_MODIFICATION_RE);
+		if (!matches) continue;
+
+		const [, name, operation, value] = matches;
+		const current = name in env ? env[name] : baseEnv[name];
+		env[name] = modifyEnvironmentVariable(
+			operation,
+			value,
+			current,
+			initialEnv[name]
+		);
+	}
+	return env;
+}
+
+/**
+ * Apply `ENVIRONMENT_MODIFICATION` operation to environment variable
+ *
+ * @param operation Operation name, e.g. `path_list_prepend`
+ * @param value Operation value
+ * @param current Current variable value, undefined if unset
+ * @param initial Variable value before modifications, undefined if unset
+ *
+ * @return New variable value, undefined if unset
+ */
+export function modifyEnvironmentVariable(
+	operation: string,
+	value: string,
+	current: string | undefined,
+	initial: string | undefined
+) {
+	const pathSeparator = process.platform === 'win32' ? ';' : ':';
+	const join = (first = '', second = '', separator: string) =>
+		first && second ? `${first}${separator}${second}` : first || second;
+	switch (operation) {
+		case 'reset':
+			return initial;
+		case 'set':
+			return value;
+		case 'unset':
+			return undefined;
+		case 'string_append':
+			return `${current ?? ''}${value}`;
+		case 'string_prepend':
+			return `${value}${current ?? ''}`;
+		case 'path_list_append':
+			return join(current, value, pathSeparator);
+		case 'path_list_prepend':
+			return join(value, current, pathSeparator);
+		case 'cmake_list_append':
+			return join(current, value, ';');
+		case 'cmake_list_prepend':
+			return join(value, current, ';');
+		default:
+			// Unknown operations leave the variable untouched
+			return current;
+	}
+}
+
+/**
+ * Get location of the `add_test` call defining a CMake test
+ *
+ * @param test CMake test info
+ *
+ * @return File path and 1-based line number, undefined if unknown
+ */
+export function getCmakeTestLocation(
+	test: CmakeTestInfo
+): { file: string; line?: number } | undefined {
+	const { backtrace, backtraceGraph } = test;
+	if (backtrace === undefined || !backtraceGraph) return;
+
+	const node = backtraceGraph.nodes[backtrace];
+	const file = node && backtraceGraph.files[node.file];
+	if (!file) return;
+
+	return { file, line: node.line };
+}
+
+/**
+ * Get labels defined for a CMake test
+ *
+ * @param test CMake test info
+ */
+export function getCmakeTestLabels(test: CmakeTestInfo): string[] {
+	return getCmakeTestListProperty(test, 'LABELS');
+}
+
+/** CTest fixtures of a test */
+export interface CmakeTestFixtures {
+	/** Fixtures set up by the test (`FIXTURES_SETUP`) */
+	setup: string[];
+
+	/** Fixtures cleaned up by the test (`FIXTURES_CLEANUP`) */
+	cleanup: string[];
+
+	/** Fixtures required by the test (`FIXTURES_REQUIRED`) */
+	required: string[];
+}
+
+/**
+ * Get fixtures defined for a CMake test
+ *
+ * @param test CMake test info
+ */
+export function getCmakeTestFixtures(test: CmakeTestInfo): CmakeTestFixtures {
+	return {
+		setup: getCmakeTestListProperty(test, 'FIXTURES_SETUP'),
+		cleanup: getCmakeTestListProperty(test, 'FIXTURES_CLEANUP'),
+		required: getCmakeTestListProperty(test, 'FIXTURES_REQUIRED'),
+	};
+}
+
+/** CTest dependencies of a test */
+export interface CmakeTestDependencies {
+	/** Tests to run before the test (`DEPENDS`) */
+	depends: string[];
+
+	/** Files required to run the test (`REQUIRED_FILES`) */
+	requiredFiles: string[];
+}
+
+/**
+ * Get dependencies defined for a CMake test
+ *
+ * @param test CMake test info
+ */
+export function getCmakeTestDependencies(
+	test: CmakeTestInfo
+): CmakeTestDependencies {
+	return {
+		depends: getCmakeTestListProperty(test, 'DEPENDS'),
+		requiredFiles: getCmakeTestListProperty(test, 'REQUIRED_FILES'),
+	};
+}
+
+/** CTest pass/fail criteria of a test */
+export interface CmakeTestCriteria {
+	/** Whether the test is expected to fail (`WILL_FAIL`) */
+	willFail: boolean;
+
+	/** Regexps of passing test output (`PASS_REGULAR_EXPRESSION`) */
+	passRegularExpressions: string[];
+
+	/** Regexps of failing test output (`FAIL_REGULAR_EXPRESSION`) */
+	failRegularExpressions: string[];
+
+	/** Regexps of skipped test output (`SKIP_REGULAR_EXPRESSION`) */
+	skipRegularExpressions: string[];
+
+	/** Return code of skipped tests (`SKIP_RETURN_CODE`), if any */
+	skipReturnCode?: number;
+}
+
+/**
+ * Get pass/fail criteria defined for a CMake test
+ *
+ * @param test CMake test info
+ */
+export function getCmakeTestCriteria(test: CmakeTestInfo): CmakeTestCriteria {
+	const skipReturnCode = getCmakeTestProperty(test, 'SKIP_RETURN_CODE');
+	return {
+		willFail: getCmakeTestProperty(test, 'WILL_FAIL') === true,
+		passRegularExpressions: getCmakeTestListProperty(
+			test,
+			'PASS_REGULAR_EXPRESSION'
+		),
+		failRegularExpressions: getCmakeTestListProperty(
+			test,
+			'FAIL_REGULAR_EXPRESSION'
+		),
+		skipRegularExpressions: getCmakeTestListProperty(
+			test,
+			'SKIP_REGULAR_EXPRESSION'
+		),
+		skipReturnCode:
+			typeof skipReturnCode === 'number' ? skipReturnCode : undefined,
+	};
+}
+
+/**
+ * Get setup & cleanup tests of fixtures required by CMake tests
+ *
+ * This follows the semantics of CTest when running a subset of tests: setup
+ * tests requiring other fixtures bring their own setup & cleanup tests.
+ *
+ * @param tests All CMake tests
+ * @param selected Selected CMake tests
+ *
+ * @return Setup & cleanup tests not already selected, in test order
+ */
+export function getCmakeFixtureTests(
+	tests: CmakeTestInfo[],
+	selected: CmakeTestInfo[]
+) {
+	const fixtures = tests.map(getCmakeTestFixtures);
+
+	// Collect required fixtures transitively through setup tests
+	const required = new Set<string>();
+	const pending = selected.map((test) => tests.indexOf(test));
+	while (pending.length) {
+		const index = pending.pop()!;
+		for (const fixture of fixtures[index]?.required || []) {
+			if (required.has(fixture)) continue;
+			required.add(fixture);
+			fixtures.forEach(({ setup }, i) => {
+				if (setup.includes(fixture)) pending.push(i);
+			});
+		}
+	}
+
+	const isRequired = (names: string[]) =>
+		names.some((fixture) => required.has(fixture));
+	const isSelected = (test: CmakeTestInfo) => selected.includes(test);
+	return {
+		setup: tests.filter(
+			(test, i) => !isSelected(test) && isRequired(fixtures[i].setup)
+		),
+		cleanup: tests.filter(
+			(test, i) => !isSelected(test) && isRequired(fixtures[i].cleanup)
+		),
+	};
+}
+
+/**
+ * Get property of a CMake test
+ *
+ * @param test CMake test info
+ * @param name Property name
+ *
+ * @return Property value, undefined if missing
+ */
+function getCmakeTestProperty(test: CmakeTestInfo, name: string) {
+	return test.properties.find((p) => p.name === name)?.value;
+}
+
+/**
+ * Get string property of a CMake test
+ *
+ * @param test CMake test info
+ * @param name Property name
+ *
+ * @return Property value, undefined if missing or not a string
+ */
+export function getCmakeTestStringProperty(test: CmakeTestInfo, name: string) {
+	const value = getCmakeTestProperty(test, name);
+	return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Get list property of a CMake test
+ *
+ * @param test CMake test info
+ * @param name Property name
+ */
+function getCmakeTestListProperty(test: CmakeTestInfo, name: string): string[] {
+	const value = getCmakeTestProperty(test, name);
+	if (Array.isArray(value)) return value;
+	return typeof value === 'string' ? [value] : [];
+}
+
+/**
+ * Check whether CMake test labels match include/exclude regexps
+ *
+ * This follows the semantics of the `ctest -L` and `ctest -LE` options.
+ *
+ * @param labels CMake test labels
+ * @param includeLabels Regexp of labels to include (may be empty)
+ * @param excludeLabels Regexp of labels to exclude (may be empty)
+ */
+export function matchCmakeTestLabels(
+	labels: string[],
+	includeLabels?: string,
+	excludeLabels?: string
+) {
+	if (includeLabels) {
+		const includeRe = new RegExp(includeLabels);
+		if (!labels.some((label) => includeRe.test(label))) return false;
+	}
+	if (excludeLabels) {
+		const excludeRe = new RegExp(excludeLabels);
+		if (labels.some((label) => excludeRe.test(label))) return false;
+	}
+	return true;
 }
@@ -0,0 +1,227 @@
+/**
+ * @file Code coverage collection (gcov & lcov)
+ */
+
+import * as child_process from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** Extension of gcov data files */
+const GCDA_EXTENSION = '.gcda';
+
+/** Maximum number of data files passed to a single gcov command */
+const GCOV_BATCH_SIZE = 100;
+
+/**
+ * Line coverage data
+ *
+ * Maps absolute source file paths to 1-based line numbers and their
+ * execution counts
+ */
+export type CoverageData = Map<string, Map<number, number>>;
+
+/**
+ * Add line count to coverage data
+ *
+ * @param data Coverage data
+ * @param file Absolute source file path
+ * @param line 1-based line number
+ * @param count Execution count
+ */
+function addLineCount(
+	data: CoverageData,
+	file: string,
+	line: number,
+	count: number
+) {
+	let lines = data.get(file);
+	if (!lines) {
+		lines = new Map<number, number>();
+		data.set(file, lines);
+	}
+	lines.set(line, (lines.get(line) || 0) + count);
+}
+
+/**
+ * Merge coverage data into target
+ *
+ * @param target Target coverage data
+ * @param source Coverage data to merge
+ */
+export function mergeCoverageData(target: CoverageData, source: CoverageData) {
+	for (const [file, lines] of source) {
+		for (const [line, count] of lines) {
+			addLineCount(target, file, line, count);
+		}
+	}
+}
+
+/**
+ * Parse lcov tracefile
+ *
+ * @see https://github.com/linux-test-project/lcov/blob/master/man/geninfo.1
+ *
+ * @param infoFile Path of the lcov `.info` file
+ *
+ * @return Coverage data
+ */
+export function parseLcovFile(infoFile: string): CoverageData {
+	return parseLcov(
+		fs.readFileSync(infoFile).toString(),
+		path.dirname(infoFile)
+	);
+}
+
+/**
+ * Parse lcov tracefile contents
+ *
+ * @param info Tracefile contents
+ * @param cwd Directory for relative source paths
+ *
+ * @return Coverage data
+ */
+export function parseLcov(info: string, cwd: string): CoverageData {
+	const data: CoverageData = new Map();
+	let file: string | undefined;
+	for (const line of info.split(/\r?\n/)) {
+		if (line.startsWith('SF:')) {
+			file = path.resolve(cwd, line.substring(3));
+		} else if (line.startsWith('DA:') && file) {
+			const [lineNumber, count] = line.substring(3).split(',');
+			addLineCount(
+				data,
+				file,
+				Number.parseInt(lineNumber),
+				Number.parseInt(count) || 0
+			);
+		} else if (line === 'end_of_record') {
+			file = undefined;
+		}
+	}
+	return data;
+}
+
+/**
+ * Find gcov data files in directory
+ *
+ * @param dir Directory to search recursively
+ *
+ * @return Absolute paths of `.gcda` files
+ */
+export async function findGcdaFiles(dir: string): Promise<string[]> {
+	const files: string[] = [];
+	let entries: fs.Dirent[];
+	try {
+		entries = await fs.promises.readdir(dir, { withFileTypes: true });
+	} catch (e) {
+		return files;
+	}
+	for (const entry of entries) {
+		const entryPath = path.join(dir, entry.name);
+		if (entry.isDirectory()) {
+			files.push(...(await findGcdaFiles(entryPath)));
+		} else if (entry.name.endsWith(GCDA_EXTENSION)) {
+			files.push(entryPath);
+		}
+	}
+	return files;
+}
+
+/**
+ * Reset gcov execution counters by removing data files
+ *
+ * @param buildDir CMake build directory
+ */
+export async function resetGcovCounters(buildDir: string) {
+	for (const file of await findGcdaFiles(buildDir)) {
+		await fs.promises.rm(file, { force: true });
+	}
+}
+
+/**
+ * Collect coverage data from gcov data files in build dir
+ *
+ * Requires gcov >= 10 for options `--json-format` and `--stdout`
+ *
+ * @param gcovPath gcov command path
+ * @param buildDir CMake build directory
+ *
+ * @return Coverage data
+ */
+export async function collectGcovCoverage(
+	gcovPath: string,
+	buildDir: string
+): Promise<CoverageData> {
+	const data: CoverageData = new Map();
+	const gcdaFiles = await findGcdaFiles(buildDir);
+	for (let i = 0; i < gcdaFiles.length; i += GCOV_BATCH_SIZE) {
+		const output = await runGcov(
+			gcovPath,
+			buildDir,
+			gcdaFiles.slice(i, i + GCOV_BATCH_SIZE)
+		);
+		mergeCoverageData(data, parseGcovJson(output));
+	}
+	return data;
+}
+
+/**
+ * Run gcov with JSON output on data files
+ *
+ * @param gcovPath gcov command path
+ * @param cwd Directory to run the command within
+ * @param gcdaFiles Data files to process
+ *
+ * @return gcov output
+ */
+function runGcov(
+	gcovPath: string,
+	cwd: string,
+	gcdaFiles: string[]
+): Promise<string> {
+	return new Promise<string>((resolve, reject) => {
+		child_process.execFile(
+			gcovPath,
+			['--json-format', '--stdout', ...gcdaFiles],
+			{ cwd, maxBuffer: 256 * 1024 * 1024 },
+			(error, stdout) => {
+				if (error) {
+					reject(
+						new Error(
+							`Error running '${gcovPath}': ${error.message}`
+						)
+					);
+				} else {
+					resolve(stdout);
+				}
+			}
+		);
+	});
+}
+
+/**
+ * Parse gcov JSON output
+ *
+ * gcov outputs one JSON document per line, one line per data file
+ *
+ * @see https://gcc.gnu.org/onlinedocs/gcc/Invoking-Gcov.html
+ *
+ * @param output gcov output
+ *
+ * @return Coverage data
+ */
+export function parseGcovJson(output: string): CoverageData {
+	const data: CoverageData = new Map();
+	for (const line of output.split(/\r?\n/)) {
+		if (!line.trim()) continue;
+		const report = JSON.parse(line);
+		const cwd = report.current_working_directory || '';
+		for (const { file, lines } of report.files || []) {
+			const filePath = path.resolve(cwd, file);
+			for (const { line_number, count } of lines || []) {
+				addLineCount(data, filePath, line_number, count);
+			}
+		}
+	}
+	return data;
+}
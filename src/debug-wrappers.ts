@@ -0,0 +1,274 @@
+/**
+ * @file Test command wrappers & emulators for debugging
+ */
+
+import * as path from 'path';
+import {
+	ENVIRONMENT_MODIFICATION_RE,
+	modifyEnvironmentVariable,
+} from './cmake-runner';
+
+/** Regexp for CMake program, e.g. `/usr/bin/cmake` */
+const CMAKE_PROGRAM_RE = /(?:^|[\\/])cmake(?:\.exe)?$/i;
+
+/** Regexp for env program, e.g. `/usr/bin/env` */
+const ENV_PROGRAM_RE = /(?:^|[\\/])env$/;
+
+/** Regexp for environment variable assignment, e.g. `NAME=value` */
+const ENV_ASSIGNMENT_RE = /^([^=-][^=]*)=([^]*)$/;
+
+/** Regexp for QEMU user-mode emulators, e.g. `qemu-aarch64` */
+const QEMU_PROGRAM_RE = /(?:^|[\\/])qemu-(?!system-)[\w.-]+?(?:\.exe)?$/i;
+
+/** QEMU user-mode options without argument */
+const QEMU_FLAGS = [
+	'h',
+	'help',
+	'version',
+	'singlestep',
+	'one-insn-per-tb',
+	'strace',
+];
+
+/** Debug wrapper settings, see `cmakeExplorer.debugWrappers` */
+export interface DebugWrapperConfig {
+	/** Regular expression matching the wrapper program */
+	program: string;
+
+	/**
+	 * Number of wrapper arguments before the wrapped command, by default
+	 * arguments starting with `-`
+	 */
+	args?: number;
+}
+
+/** Debug wrapper */
+export interface DebugWrapper {
+	/** Pattern matching the wrapper program */
+	program: RegExp;
+
+	/** Number of wrapper arguments before the wrapped command, if fixed */
+	args?: number;
+}
+
+/** Test command to debug */
+export interface TestCommand {
+	/** Program & arguments */
+	command: string[];
+
+	/** Environment variables of the test, undefined values are unset */
+	env: NodeJS.ProcessEnv;
+
+	/** Working directory, if any, possibly relative to the build directory */
+	cwd?: string;
+
+	/** Emulator program & arguments supporting remote debugging, if any */
+	emulator?: string[];
+}
+
+/** Built-in wrappers with regular command-line syntax */
+const BUILTIN_WRAPPERS: DebugWrapperConfig[] = [
+	{ program: String.raw`(?:^|[\\/])valgrind(?:\.bin)?$` },
+];
+
+/**
+ * Get debug wrappers from settings, including built-in ones
+ *
+ * @param configs Custom wrapper settings
+ *
+ * @return Debug wrappers
+ *
+ * @throws Error on invalid regular expressions
+ */
+export function getDebugWrappers(configs: DebugWrapperConfig[]) {
+	return [...BUILTIN_WRAPPERS, ...configs].map(
+		({ program, args }): DebugWrapper => ({
+			program: new RegExp(program),
+			args,
+		})
+	);
+}
+
+/**
+ * Unwrap test command from its wrappers and emulator
+ *
+ * Wrappers are removed recursively: `cmake -E env` and `env` with their
+ * environment changes, then the given wrappers. QEMU user-mode emulators,
+ * either given or found in the command, are removed so that the debugger can
+ * attach to their GDB stub; other emulators are debugged as is.
+ *
+ * @param testCommand Test command
+ * @param wrappers Debug wrappers
+ * @param emulator Cross-compiling emulator program & arguments, if any
+ * @param baseEnv Environment the test runs within
+ *
+ * @return Unwrapped test command
+ */
+export function unwrapTestCommand(
+	testCommand: TestCommand,
+	wrappers: DebugWrapper[],
+	emulator: string[] = [],
+	baseEnv: NodeJS.ProcessEnv = process.env
+): TestCommand {
+	let { command, env, cwd } = testCommand;
+	env = { ...env };
+	const getValue = (name: string) =>
+		name in env ? env[name] : baseEnv[name];
+
+	for (;;) {
+		// Emulators are outermost, so nothing can follow them
+		const emulatorCommand = getEmulatorCommand(command, emulator);
+		if (emulatorCommand) {
+			if (!QEMU_PROGRAM_RE.test(emulatorCommand[0])) break;
+			return {
+				command: command.slice(emulatorCommand.length),
+				env,
+				cwd,
+				emulator: emulatorCommand,
+			};
+		}
+
+		const [program, ...args] = command;
+		let next: string[] | undefined;
+		if (CMAKE_PROGRAM_RE.test(program) && args[0] === '-E') {
+			if (args[1] !== 'env') break;
+
+			// cmake -E env [--unset=NAME]... [--modify NAME=OP:VALUE]... [--]
+			//   [NAME=VALUE]... command [args...]
+			let index = 2;
+			const initialEnv = { ...baseEnv, ...env };
+			for (; index < args.length; index++) {
+				const arg = args[index];
+				let matches;
+				if (arg.startsWith('--unset=')) {
+					env[arg.substring(8)] = undefined;
+				} else if (
+					arg === '--modify' &&
+					(matches = (args[index + 1] || '').match(
+						ENVIRONMENT_MODIFICATION_RE
+					))
+				) {
+					const [, name, operation, value] = matches;
+					env[name] = modifyEnvironmentVariable(
+						operation,
+						value,
+						getValue(name),
+						initialEnv[name]
+					);
+					index++;
+				} else {
+					if (arg === '--') index++;
+					break;
+				}
+			}
+			next = parseAssignments(args.slice(index), env);
+		} else if (ENV_PROGRAM_RE.test(program)) {
+			// env [-u NAME]... [-C DIR] [--] [NAME=VALUE]... command [args...]
+			let index = 0;
+			for (; index < args.length; index++) {
+				const arg = args[index];
+				if (arg === '-u' || arg === '--unset') {
+					env[args[++index]] = undefined;
+				} else if (arg.startsWith('--unset=')) {
+					env[arg.substring(8)] = undefined;
+				} else if (arg === '-C' || arg === '--chdir') {
+					cwd = changeDirectory(cwd, args[++index]);
+				} else if (arg.startsWith('--chdir=')) {
+					cwd = changeDirectory(cwd, arg.substring(8));
+				} else if (arg === '--') {
+					index++;
+					break;
+				} else if (!arg.startsWith('-') || arg === '-') {
+					break;
+				}
+			}
+			next = parseAssignments(args.slice(index), env);
+		} else {
+			const wrapper = wrappers.find((wrapper) =>
+				wrapper.program.test(program)
+			);
+			if (!wrapper) break;
+			next =
+				wrapper.args === undefined
+					? skipOptions(args)
+					: args.slice(wrapper.args);
+		}
+		if (!next || !next.length) break;
+		command = next;
+	}
+
+	return { command, env, cwd };
+}
+
+/**
+ * Parse leading environment variable assignments of command
+ *
+ * @param args Command-line arguments
+ * @param env Environment to assign variables to
+ *
+ * @return Remaining arguments
+ */
+function parseAssignments(args: string[], env: NodeJS.ProcessEnv) {
+	let index = 0;
+	let matches;
+	while (
+		index < args.length &&
+		(matches = args[index].match(ENV_ASSIGNMENT_RE))
+	) {
+		env[matches[1]] = matches[2];
+		index++;
+	}
+	return args.slice(index);
+}
+
+/**
+ * Change working directory
+ *
+ * @param cwd Current working directory, if any
+ * @param directory New directory, possibly relative
+ *
+ * @return New working directory, relative if current one is unknown
+ */
+function changeDirectory(cwd: string | undefined, directory: string) {
+	return cwd ? path.resolve(cwd, directory) : directory;
+}
+
+/**
+ * Skip leading options of command
+ *
+ * @param args Command-line arguments
+ *
+ * @return Remaining arguments
+ */
+function skipOptions(args: string[]) {
+	const index = args.findIndex((arg) => !arg.startsWith('-'));
+	return index < 0 ? [] : args.slice(index);
+}
+
+/**
+ * Get emulator program & arguments prefixing test command
+ *
+ * @param command Test command
+ * @param emulator Cross-compiling emulator program & arguments, if any
+ *
+ * @return Emulator program & arguments, undefined if none
+ */
+function getEmulatorCommand(command: string[], emulator: string[]) {
+	if (
+		emulator.length &&
+		command.length > emulator.length &&
+		emulator.every((arg, index) => command[index] === arg)
+	) {
+		return emulator;
+	}
+
+	// QEMU options take one argument except flags
+	if (!QEMU_PROGRAM_RE.test(command[0])) return;
+	let index = 1;
+	while (index < command.length && command[index].startsWith('-')) {
+		const option = command[index].replace(/^--?/, '');
+		index += QEMU_FLAGS.includes(option) ? 1 : 2;
+	}
+	if (index >= command.length) return;
+	return command.slice(0, index);
+}
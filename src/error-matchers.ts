@@ -0,0 +1,271 @@
+/**
+ * @file Error matchers for test & build outputs
+ */
+
+/** Regexp for ANSI color sequences, e.g. in Boost.Test output */
+export const ANSI_COLOR_RE = /\x1b\[[0-9;]*m/g;
+
+/** Error matcher settings, see `cmakeExplorer.errorMatchers` */
+export interface ErrorMatcherConfig {
+	/**
+	 * Regular expression, or list of regular expressions matching consecutive
+	 * lines, with named groups `file`, `line`, `column`, `severity` and
+	 * `message`
+	 */
+	pattern: string | string[];
+
+	/**
+	 * Repeat the last pattern as long as it matches the following lines,
+	 * possibly none
+	 */
+	loop?: boolean;
+}
+
+/** Error matcher */
+export interface ErrorMatcher {
+	/** Patterns matching consecutive lines */
+	patterns: RegExp[];
+
+	/** Repeat the last pattern as long as it matches, possibly none */
+	loop?: boolean;
+}
+
+/** Error matched in output */
+export interface ErrorMatch {
+	/** Source file */
+	file: string;
+
+	/** 1-based line number */
+	line: number;
+
+	/** 1-based column number, if known */
+	column?: number;
+
+	/** Severity, if known */
+	severity?: string;
+
+	/** Message, possibly spanning several lines */
+	message: string;
+}
+
+/** GCC & Clang diagnostics, e.g. `file.c:12:5: error: message` */
+const GCC_MATCHERS: ErrorMatcherConfig[] = [
+	{
+		pattern: String.raw`^(?<file>[^<\s].*?):(?<line>\d+):(?:(?<column>\d+):)?\s+(?<severity>(?:fatal\s+)?(?:warning|error)):\s+(?<message>.*)$`,
+	},
+];
+
+/** Built-in error matchers by preset name */
+const ERROR_MATCHER_PRESETS: { [name: string]: ErrorMatcherConfig[] } = {
+	gcc: GCC_MATCHERS,
+	clang: GCC_MATCHERS,
+
+	// e.g. `file.cpp(12,5): error C2065: message`
+	msvc: [
+		{
+			pattern: String.raw`^\s*(?<file>[^<\s].*?)\((?<line>\d+)(?:,(?<column>\d+))?\)\s*:\s+(?<severity>(?:fatal\s+)?(?:warning|error))\s+(?<message>[A-Z]+\d+:\s+.*)$`,
+		},
+	],
+
+	// e.g. `file.cc:12: Failure` or `file.cc(12): error: message` followed
+	// by message lines
+	gtest: [
+		{
+			pattern: [
+				String.raw`^(?<file>[^[\s].*?):(?<line>\d+): Failure$`,
+				String.raw`^(?!\[|.+:\d+: Failure$)(?<message>.*)$`,
+			],
+			loop: true,
+		},
+		{
+			pattern: [
+				String.raw`^(?<file>[^[\s].*?)\((?<line>\d+)\): error: (?!in ")(?<message>.*)$`,
+				String.raw`^(?!\[|.+\(\d+\): error: )(?<message>.*)$`,
+			],
+			loop: true,
+		},
+	],
+
+	// e.g. `file.cpp:12: FAILED:` followed by message lines
+	catch2: [
+		{
+			pattern: [
+				String.raw`^(?<file>\S.*?)(?::|\()(?<line>\d+)\)?: FAILED:$`,
+				String.raw`^(?<message>.+)$`,
+			],
+			loop: true,
+		},
+	],
+
+	// e.g. `file.cpp:12: ERROR: CHECK( a == b ) is NOT correct!` followed by
+	// indented lines
+	doctest: [
+		{
+			pattern: [
+				String.raw`^(?<file>\S.*?)(?::|\()(?<line>\d+)\)?: (?<severity>ERROR|FATAL ERROR|WARNING): (?<message>.*)$`,
+				String.raw`^(?<message>\s+\S.*)$`,
+			],
+			loop: true,
+		},
+	],
+
+	// e.g. `file.cpp(12): error: in "suite/case": check a == b has failed`
+	'boost.test': [
+		{
+			pattern: String.raw`^(?!unknown location)(?<file>\S.*?)\((?<line>\d+)\): (?<severity>(?:fatal )?error): in "[^"]*": (?<message>.*)$`,
+		},
+	],
+
+	// e.g. `file.c:12:test_case:FAIL: Expected 1 Was 2`
+	unity: [
+		{
+			pattern: String.raw`^(?<file>\S.*?):(?<line>\d+):[^:]*:(?<severity>FAIL)(?::\s*(?<message>.*))?$`,
+		},
+	],
+
+	// e.g. `[  ERROR   ] --- 0x1 != 0x2` followed by
+	// `[   LINE   ] --- file.c:12: error: Failure!`
+	cmocka: [
+		{
+			pattern: [
+				String.raw`^\[  ERROR   \] --- (?<message>.*)$`,
+				String.raw`^\[   LINE   \] --- (?<file>.+?):(?<line>\d+): (?<severity>error): .*$`,
+			],
+		},
+	],
+};
+
+/**
+ * Get error matchers from settings
+ *
+ * @param configs Preset names or custom matcher settings
+ *
+ * @return Error matchers
+ *
+ * @throws Error on unknown presets or invalid regular expressions
+ */
+export function getErrorMatchers(
+	configs: (string | ErrorMatcherConfig)[]
+): ErrorMatcher[] {
+	const matchers: ErrorMatcher[] = [];
+	for (const config of configs) {
+		if (typeof config === 'string') {
+			const preset = ERROR_MATCHER_PRESETS[config];
+			if (!preset) throw new Error(`Unknown error matcher: ${config}`);
+			matchers.push(...preset.map(compileErrorMatcher));
+		} else {
+			matchers.push(compileErrorMatcher(config));
+		}
+	}
+	return matchers;
+}
+
+/**
+ * Compile error matcher settings
+ *
+ * @param config Error matcher settings
+ */
+function compileErrorMatcher({ pattern, loop }: ErrorMatcherConfig) {
+	const patterns = typeof pattern === 'string' ? [pattern] : pattern;
+	return {
+		patterns: patterns.map((pattern) => new RegExp(pattern)),
+		loop,
+	};
+}
+
+/**
+ * Match errors in output
+ *
+ * The `message` groups of multi-line matches are joined with newlines; other
+ * groups keep their last matched value. Matches without `file` and `line`
+ * groups are ignored.
+ *
+ * @param lines Output lines
+ * @param matchers Error matchers, first matching one wins
+ *
+ * @return Matched errors
+ */
+export function matchErrors(
+	lines: string[],
+	matchers: ErrorMatcher[]
+): ErrorMatch[] {
+	const errors: ErrorMatch[] = [];
+	lines = lines.map((line) => line.replace(ANSI_COLOR_RE, ''));
+	for (let i = 0; i < lines.length; i++) {
+		for (const matcher of matchers) {
+			const match = matchLines(lines, i, matcher);
+			if (!match) continue;
+
+			errors.push(match.error);
+			i += match.count - 1;
+			break;
+		}
+	}
+	return errors;
+}
+
+/**
+ * Match error matcher against lines at a given position
+ *
+ * @param lines Output lines
+ * @param start Index of first line
+ * @param matcher Error matcher
+ *
+ * @return Matched error & number of matched lines, or undefined if no match
+ */
+function matchLines(lines: string[], start: number, matcher: ErrorMatcher) {
+	const groups: { [name: string]: string } = {};
+	const messages: string[] = [];
+	const addGroups = (matches: RegExpMatchArray) => {
+		for (const [name, value] of Object.entries(matches.groups || {})) {
+			if (value === undefined) continue;
+			if (name === 'message') messages.push(value);
+			else groups[name] = value;
+		}
+	};
+
+	// Consecutive patterns must all match, except the looping one
+	const { patterns, loop } = matcher;
+	const required =
+		loop && patterns.length > 1 ? patterns.slice(0, -1) : patterns;
+	let index = start;
+	for (const pattern of required) {
+		const matches = index < lines.length && lines[index].match(pattern);
+		if (!matches) return;
+		addGroups(matches);
+		index++;
+	}
+
+	// Looping pattern matches any number of extra lines
+	if (loop) {
+		const pattern = patterns[patterns.length - 1];
+		let matches;
+		while (
+			index < lines.length &&
+			(matches = lines[index].match(pattern))
+		) {
+			addGroups(matches);
+			index++;
+		}
+	}
+
+	const { file, line, column, severity } = groups;
+	if (!file || !line) return;
+
+	// Drop trailing empty lines, defaulting to the first matched line
+	while (messages.length && !messages[messages.length - 1].trim()) {
+		messages.pop();
+	}
+	const message = messages.length ? messages.join('\n') : lines[start];
+
+	return {
+		error: {
+			file,
+			line: Number.parseInt(line),
+			column: column ? Number.parseInt(column) : undefined,
+			severity,
+			message,
+		},
+		count: index - start,
+	};
+}
@@ -0,0 +1,538 @@
+/**
+ * @file GoogleTest case discovery & execution
+ */
+
+import * as child_process from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as split2 from 'split2';
+import { CmakeTestInfo } from './interfaces/cmake-test-info';
+import { CmakeTestResult } from './interfaces/cmake-test-result';
+import { CmakeTestProcess } from './interfaces/cmake-test-process';
+import { getCmakeTestDebugConfiguration } from './cmake-runner';
+import { parseGtestValues } from './assertion-diff';
+
+/** Marker string found in GoogleTest executables */
+const GTEST_MARKER = 'gtest_list_tests';
+
+/** Results of GoogleTest executable detection by command path */
+const gtestExecutableCache = new Map<
+	string,
+	{ mtimeMs: number; result: boolean }
+>();
+
+/** Timeout in milliseconds for listing test cases */
+const GTEST_LIST_TIMEOUT = 10000;
+
+/** Regexp for suite line in test list, e.g. `Suite.  # TypeParam = int` */
+const GTEST_SUITE_RE = /^(\S+)\.(?:\s+#.*)?$/;
+
+/** Regexp for case line in test list, e.g. `  Case/0  # GetParam() = 2` */
+const GTEST_CASE_RE = /^\s+(\S+)(?:\s+#.*)?$/;
+
+/** Regexp for test start line */
+const GTEST_RUN_RE = /^\[ RUN      \] (.+)$/;
+
+/** Regexp for test end line, e.g. `[       OK ] Suite.Case (12 ms)` */
+const GTEST_END_RE =
+	/^\[\s*(OK|FAILED|SKIPPED)\s*\] ([^\s,]+)(?:.*\((\d+) ms\))?$/;
+
+/** Regexp for failure location in report, e.g. `/path/to/file.cc:12` */
+const GTEST_FAILURE_LOCATION_RE = /^(.+?):(\d+)$/;
+
+/**
+ * Regexp for failure header in output, e.g. `file.cc:12: Failure` or
+ * `file.cc(12): error: Failed`
+ */
+const GTEST_FAILURE_HEADER_RE =
+	/^(.+?)(?::(\d+): Failure|\((\d+)\): error: (.*))$/;
+
+/** GoogleTest suite */
+export interface GtestSuite {
+	/** Suite name, e.g. `Suite`, `Instance/Suite` or `Suite/0` */
+	name: string;
+
+	/** Case names, e.g. `Case` or `Case/0` */
+	cases: string[];
+}
+
+/** GoogleTest failure */
+export interface GtestFailure {
+	/** Failure message */
+	message: string;
+
+	/** Source file, if known */
+	file?: string;
+
+	/** 1-based line number, if known */
+	line?: number;
+
+	/** Expected value of equality assertions */
+	expected?: string;
+
+	/** Actual value of equality assertions */
+	actual?: string;
+}
+
+/** GoogleTest case result */
+export interface GtestCaseResult {
+	/** Full case name, e.g. `Suite.Case` */
+	name: string;
+
+	/** Case state */
+	state: 'passed' | 'failed' | 'skipped';
+
+	/** Duration in milliseconds */
+	duration?: number;
+
+	/** Failures */
+	failures: GtestFailure[];
+}
+
+/** GoogleTest process events */
+export type GtestEvent =
+	| { type: 'start'; name: string }
+	| { type: 'output'; line: string };
+
+/**
+ * Get full GoogleTest case name
+ *
+ * @param suite Suite name
+ * @param testCase Case name
+ */
+export function getGtestCaseName(suite: string, testCase: string) {
+	return `${suite}.${testCase}`;
+}
+
+/**
+ * Check whether a CMake test runs a GoogleTest executable
+ *
+ * Results are cached until the executable changes.
+ *
+ * @param test CMake test info
+ */
+export async function isGtestExecutable(test: CmakeTestInfo) {
+	const [command] = test.command;
+	if (!command) return false;
+	try {
+		const { mtimeMs } = await fs.promises.stat(command);
+		const cached = gtestExecutableCache.get(command);
+		if (cached && cached.mtimeMs === mtimeMs) return cached.result;
+
+		const result = await fileContains(command, GTEST_MARKER);
+		gtestExecutableCache.set(command, { mtimeMs, result });
+		return result;
+	} catch (e) {
+		return false;
+	}
+}
+
+/**
+ * Check whether a file contains a marker string
+ *
+ * The file is scanned in chunks, so that large executables are not loaded in
+ * memory at once.
+ *
+ * @param file File path
+ * @param marker Marker string
+ */
+function fileContains(file: string, marker: string): Promise<boolean> {
+	return new Promise<boolean>((resolve, reject) => {
+		const markerData = Buffer.from(marker);
+		const stream = fs.createReadStream(file);
+
+		// Keep the end of the previous chunk for markers across chunks
+		let tail = Buffer.alloc(0);
+		stream.on('data', (chunk: Buffer) => {
+			const data = Buffer.concat([tail, chunk]);
+			if (data.includes(markerData)) {
+				stream.destroy();
+				resolve(true);
+				return;
+			}
+			tail = data.subarray(
+				Math.max(0, data.length - markerData.length + 1)
+			);
+		});
+		stream.on('error', reject);
+		stream.on('end', () => resolve(false));
+	});
+}
+
+/**
+ * Get working directory of a GoogleTest executable
+ *
+ * Like CTest, executables run in the build directory unless the test has a
+ * working directory.
+ *
+ * @param test CMake test info
+ * @param buildDir CMake build directory
+ */
+export function getGtestWorkingDirectory(
+	test: CmakeTestInfo,
+	buildDir: string
+) {
+	return getCmakeTestDebugConfiguration(test).cwd || buildDir;
+}
+
+/**
+ * List GoogleTest cases of a CMake test
+ *
+ * @param test CMake test info
+ * @param cwd Working directory, see {@link getGtestWorkingDirectory}
+ *
+ * @return List of suites with their cases
+ */
+export function listGtestCases(
+	test: CmakeTestInfo,
+	cwd: string
+): Promise<GtestSuite[]> {
+	return new Promise<GtestSuite[]>((resolve, reject) => {
+		const { program, args, env } = getCmakeTestDebugConfiguration(test, [
+			'--gtest_list_tests',
+		]);
+		child_process.execFile(
+			program,
+			args,
+			{
+				cwd,
+				env: { ...process.env, ...env },
+				timeout: GTEST_LIST_TIMEOUT,
+				maxBuffer: 64 * 1024 * 1024,
+			},
+			(error, stdout) => {
+				if (error) {
+					reject(error);
+				} else {
+					resolve(parseGtestList(stdout));
+				}
+			}
+		);
+	});
+}
+
+/**
+ * Parse output of `--gtest_list_tests`
+ *
+ * @param output Command output
+ *
+ * @return List of suites with their cases
+ */
+export function parseGtestList(output: string): GtestSuite[] {
+	const suites: GtestSuite[] = [];
+	let suite: GtestSuite | undefined;
+	for (const line of output.split(/\r?\n/)) {
+		let matches;
+		if ((matches = line.match(GTEST_SUITE_RE))) {
+			suite = { name: matches[1], cases: [] };
+			suites.push(suite);
+		} else if (suite && (matches = line.match(GTEST_CASE_RE))) {
+			suite.cases.push(matches[1]);
+		}
+	}
+	return suites;
+}
+
+/**
+ * Get GoogleTest filter for selected cases
+ *
+ * Fully selected suites collapse into wildcards, so that filters stay short
+ * enough for command lines.
+ *
+ * @param names Full names of selected cases
+ * @param allNames Full names of all cases of the executable
+ *
+ * @return Filter string (see `--gtest_filter`)
+ */
+export function getGtestFilter(names: string[], allNames: string[]) {
+	const selected = new Set(names);
+	if (allNames.every((name) => selected.has(name))) return '*';
+
+	// Group cases by suite
+	const suites = new Map<string, string[]>();
+	for (const name of allNames) {
+		const suite = name.substring(0, name.lastIndexOf('.'));
+		const cases = suites.get(suite) || [];
+		cases.push(name);
+		suites.set(suite, cases);
+	}
+
+	const patterns: string[] = [];
+	suites.forEach((cases, suite) => {
+		if (cases.every((name) => selected.has(name))) {
+			patterns.push(`${suite}.*`);
+		} else {
+			patterns.push(...cases.filter((name) => selected.has(name)));
+		}
+	});
+	return patterns.join(':');
+}
+
+/**
+ * GoogleTest run options
+ */
+export type GtestRunOptions = {
+	/** Working directory, see {@link getGtestWorkingDirectory} */
+	cwd: string;
+
+	/** Base environment */
+	env: NodeJS.ProcessEnv;
+
+	/** Test filter (see `--gtest_filter`) */
+	filter: string;
+
+	/** JSON report file path */
+	reportFile: string;
+};
+
+/**
+ * Schedule a GoogleTest process for a CMake test
+ *
+ * @param test CMake test info
+ * @param options Run options
+ */
+export function scheduleGtestProcess(
+	test: CmakeTestInfo,
+	{ cwd, env, filter, reportFile }: GtestRunOptions
+): CmakeTestProcess {
+	const {
+		program,
+		args,
+		env: testEnv,
+	} = getCmakeTestDebugConfiguration(test, [
+		`--gtest_filter=${filter}`,
+		`--gtest_output=json:${reportFile}`,
+	]);
+	const testProcess = child_process.spawn(program, args, {
+		cwd,
+		env: { ...env, ...testEnv },
+	});
+	if (!testProcess.pid) {
+		// Something failed, e.g. the executable or cwd doesn't exist
+		throw new Error(`Cannot run test ${test.name}`);
+	}
+
+	return testProcess;
+}
+
+/**
+ * Execute a previously scheduled GoogleTest process
+ *
+ * @param testProcess Scheduled test process
+ * @param onEvent Event callback
+ */
+export function executeGtestProcess(
+	testProcess: CmakeTestProcess,
+	onEvent: (event: GtestEvent) => void
+): Promise<CmakeTestResult> {
+	return new Promise<CmakeTestResult>((resolve, reject) => {
+		try {
+			testProcess.stderr
+				.pipe(split2())
+				.on('data', (line: string) =>
+					onEvent({ type: 'output', line })
+				);
+			testProcess.stdout.pipe(split2()).on('data', (line: string) => {
+				const matches = line.match(GTEST_RUN_RE);
+				if (matches) {
+					onEvent({ type: 'start', name: matches[1] });
+				}
+				onEvent({ type: 'output', line });
+			});
+			testProcess.on('error', reject);
+			testProcess.on('close', (code) => resolve({ code }));
+		} catch (e) {
+			reject(e);
+		}
+	});
+}
+
+/**
+ * Parse GoogleTest JSON report file
+ *
+ * @param reportFile Path of the JSON report
+ * @param cwd Directory for relative failure paths
+ *
+ * @return Case results
+ */
+export function parseGtestReportFile(
+	reportFile: string,
+	cwd: string
+): GtestCaseResult[] {
+	return parseGtestReport(fs.readFileSync(reportFile).toString(), cwd);
+}
+
+/**
+ * Parse GoogleTest JSON report
+ *
+ * @see https://google.github.io/googletest/advanced.html#generating-a-json-report
+ *
+ * @param json JSON report string
+ * @param cwd Directory for relative failure paths
+ *
+ * @return Case results
+ */
+export function parseGtestReport(json: string, cwd: string): GtestCaseResult[] {
+	const data = JSON.parse(json);
+	const results: GtestCaseResult[] = [];
+	for (const suite of data.testsuites || []) {
+		for (const testCase of suite.testsuite || []) {
+			const failures: GtestFailure[] = (testCase.failures || []).map(
+				({ failure }: { failure: string }) =>
+					parseGtestFailure(failure, cwd)
+			);
+			const time = Number.parseFloat(testCase.time);
+			results.push({
+				name: getGtestCaseName(suite.name, testCase.name),
+				state:
+					failures.length > 0
+						? 'failed'
+						: testCase.status !== 'RUN' ||
+							  testCase.result === 'SKIPPED'
+							? 'skipped'
+							: 'passed',
+				duration: isNaN(time) ? undefined : time * 1000,
+				failures,
+			});
+		}
+	}
+	return results;
+}
+
+/**
+ * Parse GoogleTest console output
+ *
+ * This is used for executables run by CTest, whose output is all we get.
+ * Cases that started without ending, e.g. after a crash, are failed.
+ *
+ * @param lines Output lines
+ * @param cwd Directory for relative failure paths
+ *
+ * @return Case results
+ */
+export function parseGtestOutput(
+	lines: string[],
+	cwd: string
+): GtestCaseResult[] {
+	const results: GtestCaseResult[] = [];
+	let current: { name: string; lines: string[] } | undefined;
+	for (const line of lines) {
+		let matches;
+		if ((matches = line.match(GTEST_RUN_RE))) {
+			if (current) {
+				results.push(getUnfinishedGtestCaseResult(current, cwd));
+			}
+			current = { name: matches[1], lines: [] };
+		} else if (
+			current &&
+			(matches = line.match(GTEST_END_RE)) &&
+			matches[2] === current.name
+		) {
+			const state =
+				matches[1] === 'OK'
+					? 'passed'
+					: matches[1] === 'FAILED'
+						? 'failed'
+						: 'skipped';
+			results.push({
+				name: current.name,
+				state,
+				duration: matches[3] ? Number.parseInt(matches[3]) : undefined,
+				failures:
+					state === 'failed'
+						? parseGtestOutputFailures(current.lines, cwd)
+						: [],
+			});
+			current = undefined;
+		} else if (current) {
+			current.lines.push(line);
+		}
+	}
+	if (current) {
+		results.push(getUnfinishedGtestCaseResult(current, cwd));
+	}
+	return results;
+}
+
+/**
+ * Get result of a GoogleTest case that didn't end
+ *
+ * @param current Case name & output lines
+ * @param cwd Directory for relative failure paths
+ */
+function getUnfinishedGtestCaseResult(
+	{ name, lines }: { name: string; lines: string[] },
+	cwd: string
+): GtestCaseResult {
+	return {
+		name,
+		state: 'failed',
+		failures: [
+			...parseGtestOutputFailures(lines, cwd),
+			{ message: 'Test did not finish' },
+		],
+	};
+}
+
+/**
+ * Parse GoogleTest failures from case output
+ *
+ * Each failure starts with a header line and spans until the next one.
+ *
+ * @param lines Case output lines
+ * @param cwd Directory for relative paths
+ */
+function parseGtestOutputFailures(
+	lines: string[],
+	cwd: string
+): GtestFailure[] {
+	const failures: GtestFailure[] = [];
+	let failure: { file: string; line: string; lines: string[] } | undefined;
+	const addFailure = () => {
+		if (!failure) return;
+		const message = failure.lines.join('\n').trim();
+		failures.push(
+			parseGtestFailure(
+				`${failure.file}:${failure.line}\n${message}`,
+				cwd
+			)
+		);
+	};
+	for (const line of lines) {
+		const matches = line.match(GTEST_FAILURE_HEADER_RE);
+		if (matches) {
+			addFailure();
+			failure = {
+				file: matches[1],
+				line: matches[2] || matches[3],
+				lines: matches[4] !== undefined ? [matches[4]] : [],
+			};
+		} else if (failure) {
+			failure.lines.push(line);
+		}
+	}
+	addFailure();
+	return failures;
+}
+
+/**
+ * Parse GoogleTest failure message
+ *
+ * Failure messages start with a `file:line` location line
+ *
+ * @param failure Failure string from report
+ * @param cwd Directory for relative paths
+ */
+function parseGtestFailure(failure: string, cwd: string): GtestFailure {
+	const [first, ...rest] = failure.split('\n');
+	const matches = first.match(GTEST_FAILURE_LOCATION_RE);
+	if (!matches) {
+		return { message: failure, ...parseGtestValues(failure.split('\n')) };
+	}
+	return {
+		message: rest.join('\n'),
+		file: path.resolve(cwd, matches[1]),
+		line: Number.parseInt(matches[2]),
+		...parseGtestValues(rest),
+	};
+}
@@ -13,6 +13,33 @@ export interface CmakeTestInfo {
 	command: string[];
 	properties: {
 		name: string;
-		value: string | string[];
+
+		/**
+		 * Property value: lists are arrays of strings, flags are booleans and
+		 * numeric values are numbers, e.g. `WILL_FAIL` or `SKIP_RETURN_CODE`
+		 */
+		value: string | number | boolean | string[];
+	}[];
+
+	/** Index of the `add_test` call node in the backtrace graph */
+	backtrace?: number;
+
+	/** Backtrace graph shared by all tests of the same test list */
+	backtraceGraph?: CmakeBacktraceGraph;
+}
+
+/**
+ * CMake backtrace graph
+ *
+ * @see JSON Object Model https://cmake.org/cmake/help/latest/manual/ctest.1.html#show-as-json-object-model
+ */
+export interface CmakeBacktraceGraph {
+	commands: string[];
+	files: string[];
+	nodes: {
+		file: number;
+		line?: number;
+		command?: number;
+		parent?: number;
 	}[];
 }
@@ -12,7 +12,7 @@ import { createCmakeController } from './cmake-controller';
  * Main extension entry point
  */
 export async function activate(context: vscode.ExtensionContext) {
-	const controller = createCmakeController();
+	const controller = createCmakeController(context);
 	context.subscriptions.push(controller);
 	showWhatsNew(context);
 }
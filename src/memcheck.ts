@@ -0,0 +1,145 @@
+/**
+ * @file CTest memory checker logs
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseStackTraces, StackTraceReport } from './stack-trace';
+import { RemoteTransport, toLocalText } from './remote-transport';
+
+/** Regexp for valgrind log line, e.g. `==1234== Invalid read of size 4` */
+const VALGRIND_LINE_RE = /^==\d+==(?: (.*))?$/;
+
+/**
+ * Regexp for valgrind stack frame, e.g.
+ * `   at 0x10916B: main (file.c:12)` or
+ * `   by 0x483B7F3: malloc (in /usr/lib/valgrind/vgpreload_memcheck.so)`
+ */
+const VALGRIND_FRAME_RE =
+	/^\s+(?:at|by) 0x[0-9A-Fa-f]+: (.+?) \((?:in (.+)|(.+):(\d+))\)$/;
+
+/** Regexp for valgrind messages that are not defects */
+const VALGRIND_IGNORED_RE =
+	/^(?:HEAP SUMMARY|LEAK SUMMARY|ERROR SUMMARY|Memcheck,)|still reachable/;
+
+/**
+ * Regexp for LeakSanitizer report header, followed by a stack trace per leak,
+ * e.g. `==1234==ERROR: LeakSanitizer: detected memory leaks`
+ */
+const LEAK_SANITIZER_HEADER_RE = /^(?:==\d+==)?ERROR: LeakSanitizer: /;
+
+/**
+ * Get memory checker log file of a test
+ *
+ * @param cwd CMake build directory
+ * @param index Test index
+ */
+export function getMemcheckLogFile(cwd: string, index: number) {
+	return path.join(cwd, 'Testing', 'Temporary', `MemoryChecker.${index}.log`);
+}
+
+/**
+ * Remove memory checker log files of previous runs
+ *
+ * @param cwd CMake build directory
+ * @param indexes Test indexes
+ */
+export function removeMemcheckLogFiles(cwd: string, indexes: number[]) {
+	for (const index of indexes) {
+		fs.rmSync(getMemcheckLogFile(cwd, index), { force: true });
+	}
+}
+
+/**
+ * Read memory defects from memory checker log file of a test
+ *
+ * @param cwd CMake build directory
+ * @param index Test index
+ * @param transport Remote transport the test ran through (optional)
+ *
+ * @return Defects found in log, empty if no log
+ */
+export function readMemcheckLogFile(
+	cwd: string,
+	index: number,
+	transport?: RemoteTransport
+): StackTraceReport[] {
+	const logFile = getMemcheckLogFile(cwd, index);
+	if (!fs.existsSync(logFile)) return [];
+	const log = fs.readFileSync(logFile).toString();
+	return parseMemcheckLog(
+		(transport ? toLocalText(log, transport) : log).split(/\r?\n/)
+	);
+}
+
+/**
+ * Parse memory defects in memory checker log
+ *
+ * Supports valgrind and sanitizer logs. Each leak is a separate defect.
+ *
+ * @param lines Log lines
+ *
+ * @return Defects found in log
+ */
+export function parseMemcheckLog(lines: string[]): StackTraceReport[] {
+	if (lines.some((line) => VALGRIND_LINE_RE.test(line))) {
+		return parseValgrindLog(lines);
+	}
+
+	// Leaks are reported as stack traces following their description
+	return parseStackTraces(
+		lines.filter((line) => !LEAK_SANITIZER_HEADER_RE.test(line))
+	);
+}
+
+/**
+ * Parse memory defects in valgrind log
+ *
+ * Defects are blocks of lines separated by empty lines, starting with their
+ * description, and their frames are those of the first stack.
+ *
+ * @param lines Log lines
+ *
+ * @return Defects found in log
+ */
+function parseValgrindLog(lines: string[]): StackTraceReport[] {
+	const defects: StackTraceReport[] = [];
+	let block: string[] = [];
+	const endBlock = () => {
+		const [message, ...rest] = block;
+		block = [];
+		if (!message || VALGRIND_IGNORED_RE.test(message)) return;
+
+		const defect: StackTraceReport = { message, frames: [] };
+		for (const line of rest) {
+			const matches = line.match(VALGRIND_FRAME_RE);
+			if (!matches) {
+				if (defect.frames.length) break;
+				continue;
+			}
+			const [, func, module, file, lineNumber] = matches;
+			defect.frames.push(
+				file
+					? { label: func, file, line: Number.parseInt(lineNumber) }
+					: { label: `${func} (${module})` }
+			);
+		}
+		if (!defect.frames.length) return;
+		defect.message = [message, ...rest].join('\n');
+		defects.push(defect);
+	};
+
+	for (const line of lines) {
+		const matches = line.match(VALGRIND_LINE_RE);
+		if (!matches) continue;
+		const text = matches[1] || '';
+		if (text.trim()) {
+			block.push(text);
+		} else {
+			endBlock();
+		}
+	}
+	endBlock();
+
+	return defects;
+}
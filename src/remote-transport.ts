@@ -0,0 +1,271 @@
+/**
+ * @file Remote transport for CMake commands, e.g. in containers or over SSH
+ */
+
+import * as path from 'path';
+import { CmakeCodemodel } from './cmake-file-api';
+import { CmakeTestInfo } from './interfaces/cmake-test-info';
+
+const { split } = require('split-cmd');
+
+/** Path mapping settings, see `cmakeExplorer.remotePathMappings` */
+export interface PathMappingConfig {
+	/** Local path */
+	local: string;
+
+	/** Remote path */
+	remote: string;
+}
+
+/** Remote transport */
+export interface RemoteTransport {
+	/**
+	 * Command prefix, receiving a POSIX shell command line as last argument,
+	 * e.g. `ssh host` or `docker exec -i container sh -c`
+	 */
+	command: string[];
+
+	/** Path mappings between local & remote views */
+	pathMappings: PathMappingConfig[];
+}
+
+/**
+ * Characters ending remote paths in text, besides path separators; they
+ * can't be part of file names in messages
+ */
+const PATH_BOUNDARY_CHARS = String.raw`\s:'"()\[\],=`;
+
+/** Regexp for characters that don't need shell quoting */
+const SHELL_SAFE_RE = /^[\w@%+=:,./-]+$/;
+
+/**
+ * Get remote transport from settings
+ *
+ * @param command Command prefix, see `cmakeExplorer.remoteCommand`
+ * @param pathMappings Path mappings
+ *
+ * @return Remote transport, undefined if commands run locally
+ */
+export function getRemoteTransport(
+	command: string,
+	pathMappings: PathMappingConfig[]
+): RemoteTransport | undefined {
+	const args: string[] = split(command);
+	if (!args.length) return;
+	return { command: args, pathMappings };
+}
+
+/**
+ * Get command running a program through the remote transport
+ *
+ * The program runs within a POSIX shell on the remote side, in the remote
+ * view of the local working directory, with the environment variables that
+ * differ from the local process environment.
+ *
+ * @param transport Remote transport
+ * @param program Remote program path
+ * @param args Program arguments
+ * @param cwd Local working directory (optional)
+ * @param env Environment (optional)
+ *
+ * @return Local program & arguments
+ */
+export function getRemoteCommand(
+	transport: RemoteTransport,
+	program: string,
+	args: string[],
+	cwd?: string,
+	env: NodeJS.ProcessEnv = process.env
+): [string, string[]] {
+	const assignments = Object.entries(env)
+		.filter(
+			([name, value]) =>
+				value !== undefined && value !== process.env[name]
+		)
+		.map(([name, value]) => `${name}=${value}`);
+	const commandLine = [
+		...(cwd
+			? ['cd', quoteShellArg(toRemotePath(cwd, transport)), '&&']
+			: []),
+		'exec',
+		...(assignments.length
+			? ['env', ...assignments.map(quoteShellArg)]
+			: []),
+		...[program, ...args].map(quoteShellArg),
+	].join(' ');
+	const [transportProgram, ...transportArgs] = transport.command;
+	return [transportProgram, [...transportArgs, commandLine]];
+}
+
+/**
+ * Quote argument for POSIX shells
+ *
+ * @param arg Argument
+ */
+function quoteShellArg(arg: string) {
+	if (SHELL_SAFE_RE.test(arg)) return arg;
+	return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Translate local path to remote view
+ *
+ * Remote paths use POSIX separators.
+ *
+ * @param file Local path
+ * @param transport Remote transport
+ *
+ * @return Remote path, unchanged if not mapped
+ */
+export function toRemotePath(file: string, { pathMappings }: RemoteTransport) {
+	for (const { local, remote } of sortMappings(pathMappings, 'local')) {
+		const relativePath = path.relative(local, file);
+		if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+			continue;
+		}
+		return path.posix.join(remote, ...relativePath.split(path.sep));
+	}
+	return file;
+}
+
+/**
+ * Translate remote path to local view
+ *
+ * @param file Remote path
+ * @param transport Remote transport
+ *
+ * @return Local path, unchanged if not mapped
+ */
+export function toLocalPath(file: string, { pathMappings }: RemoteTransport) {
+	for (const { local, remote } of sortMappings(pathMappings, 'remote')) {
+		const relativePath = path.posix.relative(remote, file);
+		if (
+			relativePath.startsWith('..') ||
+			path.posix.isAbsolute(relativePath)
+		) {
+			continue;
+		}
+		return path.join(local, ...relativePath.split('/'));
+	}
+	return file;
+}
+
+/**
+ * Translate remote paths in text to local view
+ *
+ * This translates paths found in command outputs, e.g. error messages or
+ * stack traces.
+ *
+ * @param text Text with remote paths
+ * @param transport Remote transport
+ *
+ * @return Text with local paths
+ */
+export function toLocalText(text: string, transport: RemoteTransport) {
+	const mappings = sortMappings(transport.pathMappings, 'remote');
+	if (!mappings.length) return text;
+
+	// Remote paths are delimited by boundary characters, and may be followed
+	// by a path relative to the mapped path
+	const remotePaths = mappings.map(({ remote }) =>
+		remote.replace(/\/+$/, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+	);
+	const remotePathRe = new RegExp(
+		`(?<=^|[${PATH_BOUNDARY_CHARS}])` +
+			`(?:${remotePaths.join('|')})` +
+			`(?:/[^${PATH_BOUNDARY_CHARS}]*)?` +
+			`(?=$|[${PATH_BOUNDARY_CHARS}])`,
+		'g'
+	);
+	return text.replace(remotePathRe, (file) => toLocalPath(file, transport));
+}
+
+/**
+ * Translate paths of CMake tests to local view
+ *
+ * This includes command paths, property values and backtrace files used for
+ * test locations.
+ *
+ * @param tests CMake tests from remote CTest
+ * @param transport Remote transport
+ *
+ * @return CMake tests with local paths
+ */
+export function toLocalCmakeTests(
+	tests: CmakeTestInfo[],
+	transport: RemoteTransport
+): CmakeTestInfo[] {
+	const toLocal = (text: string) => toLocalText(text, transport);
+	const backtraceGraphs = new Map<
+		CmakeTestInfo['backtraceGraph'],
+		CmakeTestInfo['backtraceGraph']
+	>();
+	return tests.map((test) => {
+		// Backtrace graphs are shared by all tests of the same test list
+		let backtraceGraph = backtraceGraphs.get(test.backtraceGraph);
+		if (!backtraceGraph && test.backtraceGraph) {
+			backtraceGraph = {
+				...test.backtraceGraph,
+				files: test.backtraceGraph.files.map(toLocal),
+			};
+			backtraceGraphs.set(test.backtraceGraph, backtraceGraph);
+		}
+		return {
+			...test,
+			command: test.command.map(toLocal),
+			properties: test.properties.map(({ name, value }) => ({
+				name,
+				value: Array.isArray(value)
+					? value.map(toLocal)
+					: typeof value === 'string'
+						? toLocal(value)
+						: value,
+			})),
+			backtraceGraph,
+		};
+	});
+}
+
+/**
+ * Translate paths of CMake codemodel to local view
+ *
+ * @param codemodel CMake codemodel from remote File API reply
+ * @param transport Remote transport
+ *
+ * @return Codemodel with local paths
+ */
+export function toLocalCmakeCodemodel(
+	codemodel: CmakeCodemodel,
+	transport: RemoteTransport
+): CmakeCodemodel {
+	const toLocal = (file: string) => toLocalPath(file, transport);
+	return {
+		sourceDir: toLocal(codemodel.sourceDir),
+		targets: codemodel.targets.map((target) => ({
+			...target,
+			artifacts: target.artifacts.map(toLocal),
+			sourceDir: toLocal(target.sourceDir),
+			sources: target.sources.map(toLocal),
+			definition: target.definition && {
+				...target.definition,
+				file: toLocal(target.definition.file),
+			},
+		})),
+	};
+}
+
+/**
+ * Sort path mappings by decreasing path length, so that nested paths match
+ * first
+ *
+ * @param pathMappings Path mappings
+ * @param key Path to sort by
+ */
+function sortMappings(
+	pathMappings: PathMappingConfig[],
+	key: keyof PathMappingConfig
+) {
+	return [...pathMappings]
+		.filter((mapping) => !!mapping.local && !!mapping.remote)
+		.sort((a, b) => b[key].length - a[key].length);
+}
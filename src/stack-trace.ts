@@ -0,0 +1,263 @@
+/**
+ * @file Stack trace & sanitizer report parsing
+ */
+
+/**
+ * Regexp for sanitizer report header, e.g.
+ * `==1234==ERROR: AddressSanitizer: heap-use-after-free on address ...` or
+ * `WARNING: ThreadSanitizer: data race (pid=1234)`
+ */
+const SANITIZER_HEADER_RE = /^(?:==\d+==)?(?:ERROR|WARNING): (\w+Sanitizer): /;
+
+/**
+ * Regexp for UndefinedBehaviorSanitizer runtime error, e.g.
+ * `/path/to/file.cpp:12:5: runtime error: signed integer overflow`
+ */
+const UBSAN_ERROR_RE = /^(.+?):(\d+):(\d+): runtime error: /;
+
+/** Regexp for sanitizer report summary, ending the report */
+const SANITIZER_SUMMARY_RE = /^SUMMARY: \w+Sanitizer: /;
+
+/**
+ * Regexp for sanitizer stack frame, e.g.
+ * `    #0 0x4c3b2a in func(int) /path/to/file.cpp:12:5` or
+ * `    #1 0x7f3a9c in __libc_start_main (/lib/libc.so.6+0x21b96)`
+ */
+const SANITIZER_FRAME_RE =
+	/^\s*#(\d+) 0x[0-9a-f]+(?: in (.+?))?(?:\s+\((.+)\))?$/;
+
+/** Regexp for source location at the end of a frame, e.g. `file.cpp:12:5` */
+const FRAME_LOCATION_RE = /^(.*?) ?(\S+?):(\d+)(?::(\d+))?$/;
+
+/**
+ * Regexp for gdb backtrace frame, e.g.
+ * `#0  0x0000555555555131 in func (x=1) at /path/to/file.c:12` or
+ * `#1  main () at file.c:20`
+ */
+const GDB_FRAME_RE =
+	/^#(\d+)\s+(?:0x[0-9a-f]+ in )?(\S+ \(.*?\))(?: at (\S+):(\d+)| from (\S+))?$/;
+
+/**
+ * Regexp for glibc `backtrace_symbols` frame, e.g.
+ * `./prog(func+0x21) [0x400a5d]` or `./prog(func+0x21)[0x400a5d]`
+ */
+const GLIBC_FRAME_RE =
+	/^\s*(\S+?)\(([^)+]*)(?:\+0x[0-9a-f]+)?\) ?\[0x[0-9a-f]+\]$/;
+
+/**
+ * Regexp for libunwind-style frame, e.g. `0x400c3e: (func+0x1e)`
+ */
+const LIBUNWIND_FRAME_RE =
+	/^\s*(?:#\d+\s+)?0x[0-9a-f]+: \(([^+)]+)(?:\+0x[0-9a-f]+)?\)$/;
+
+/**
+ * Regexp for Boost.Stacktrace or `std::stacktrace` frame, e.g.
+ * ` 0# func(int) at /path/to/file.cpp:12` or ` 1# main in ./prog`
+ */
+const STACKTRACE_FRAME_RE =
+	/^\s*(\d+)# (.+?)(?: at (\S+):(\d+))?(?: in (\S+))?$/;
+
+/** Stack frame */
+export interface StackFrame {
+	/** Frame label, e.g. function name */
+	label: string;
+
+	/** Source file, if known */
+	file?: string;
+
+	/** 1-based line number, if known */
+	line?: number;
+
+	/** 1-based column number, if known */
+	column?: number;
+}
+
+/** Stack trace or sanitizer report found in test output */
+export interface StackTraceReport {
+	/** Report message, e.g. the full sanitizer report */
+	message: string;
+
+	/** Stack frames, innermost first */
+	frames: StackFrame[];
+
+	/** Source file of the report, if known (e.g. UBSan runtime errors) */
+	file?: string;
+
+	/** 1-based line number, if known */
+	line?: number;
+
+	/** 1-based column number, if known */
+	column?: number;
+}
+
+/**
+ * Parse stack traces and sanitizer reports in test output
+ *
+ * Sanitizer reports span from their header to their summary line, and their
+ * frames are those of the first stack (i.e. where the error occurred). Other
+ * stack traces are sequences of frame lines, with the preceding line as their
+ * message.
+ *
+ * @param lines Test output lines
+ *
+ * @return Reports found in output
+ */
+export function parseStackTraces(lines: string[]): StackTraceReport[] {
+	const reports: StackTraceReport[] = [];
+
+	// Current sanitizer report
+	let sanitizer:
+		| {
+				report: StackTraceReport;
+				lines: string[];
+				stackDone: boolean;
+				strict: boolean;
+		  }
+		| undefined;
+
+	// Current stack trace
+	let trace: StackTraceReport | undefined;
+
+	// Last line before current stack trace
+	let previous: string | undefined;
+
+	const endSanitizer = () => {
+		if (!sanitizer) return;
+		sanitizer.report.message = sanitizer.lines.join('\n');
+		reports.push(sanitizer.report);
+		sanitizer = undefined;
+	};
+	const endTrace = () => {
+		if (!trace) return;
+		reports.push(trace);
+		trace = undefined;
+	};
+
+	for (const line of lines) {
+		let matches;
+		if (sanitizer) {
+			const frame = parseSanitizerFrame(line);
+			if (frame) {
+				sanitizer.lines.push(line);
+				if (!sanitizer.stackDone) sanitizer.report.frames.push(frame);
+				continue;
+			}
+			if (sanitizer.report.frames.length) sanitizer.stackDone = true;
+			if (SANITIZER_SUMMARY_RE.test(line)) {
+				sanitizer.lines.push(line);
+				endSanitizer();
+				continue;
+			}
+			if (!sanitizer.strict) {
+				sanitizer.lines.push(line);
+				continue;
+			}
+
+			// UBSan reports have no other lines than their frames
+			endSanitizer();
+		}
+
+		if (SANITIZER_HEADER_RE.test(line)) {
+			// Sanitizer report
+			endTrace();
+			sanitizer = {
+				report: { message: line, frames: [] },
+				lines: [line],
+				stackDone: false,
+				strict: false,
+			};
+		} else if ((matches = line.match(UBSAN_ERROR_RE))) {
+			// UBSan runtime error
+			endTrace();
+			sanitizer = {
+				report: {
+					message: line,
+					frames: [],
+					file: matches[1],
+					line: Number.parseInt(matches[2]),
+					column: Number.parseInt(matches[3]),
+				},
+				lines: [line],
+				stackDone: false,
+				strict: true,
+			};
+		} else {
+			const frame = parseStackFrame(line);
+			if (frame) {
+				// Stack trace
+				if (!trace) {
+					trace = { message: previous || 'Stack trace', frames: [] };
+				}
+				trace.frames.push(frame);
+			} else {
+				endTrace();
+				if (line.trim()) previous = line.trim();
+			}
+		}
+	}
+	endSanitizer();
+	endTrace();
+
+	return reports;
+}
+
+/**
+ * Parse sanitizer stack frame line
+ *
+ * @param line Output line
+ *
+ * @return Stack frame, or undefined if not a frame
+ */
+function parseSanitizerFrame(line: string): StackFrame | undefined {
+	const matches = line.match(SANITIZER_FRAME_RE);
+	if (!matches) return;
+
+	const [, , func, module] = matches;
+	if (!func) return { label: module || '<unknown>' };
+
+	// Source location follows the function name
+	const location = func.match(FRAME_LOCATION_RE);
+	if (!location || !location[1]) {
+		return { label: module ? `${func} (${module})` : func };
+	}
+	return {
+		label: location[1],
+		file: location[2],
+		line: Number.parseInt(location[3]),
+		column: location[4] ? Number.parseInt(location[4]) : undefined,
+	};
+}
+
+/**
+ * Parse stack frame line in any supported backtrace format
+ *
+ * @param line Output line
+ *
+ * @return Stack frame, or undefined if not a frame
+ */
+function parseStackFrame(line: string): StackFrame | undefined {
+	const sanitizerFrame = parseSanitizerFrame(line);
+	if (sanitizerFrame) return sanitizerFrame;
+
+	let matches;
+	if ((matches = line.match(GDB_FRAME_RE))) {
+		const [, , func, file, lineNumber, module] = matches;
+		return file
+			? { label: func, file, line: Number.parseInt(lineNumber) }
+			: { label: module ? `${func} from ${module}` : func };
+	}
+	if ((matches = line.match(STACKTRACE_FRAME_RE))) {
+		const [, , func, file, lineNumber, module] = matches;
+		return file
+			? { label: func, file, line: Number.parseInt(lineNumber) }
+			: { label: module ? `${func} in ${module}` : func };
+	}
+	if ((matches = line.match(GLIBC_FRAME_RE))) {
+		const [, module, func] = matches;
+		return { label: func ? `${func} (${module})` : module };
+	}
+	if ((matches = line.match(LIBUNWIND_FRAME_RE))) {
+		return { label: matches[1] };
+	}
+	return undefined;
+}
@@ -0,0 +1,222 @@
+/**
+ * @file Explanations of CTest pass/fail criteria
+ */
+
+import { CmakeTestCriteria } from './cmake-runner';
+
+/** Regexp for the last header line of verbose CTest test output */
+const CTEST_HEADER_END_RE = /^Test timeout computed to be: /;
+
+/** Regexp for CTest start & end status lines */
+const CTEST_STATUS_RE = /^\s*(?:Start\s+\d+: |\d+\/\d+\s+Test\s+#\d+: )/;
+
+/** Explanation of a test result */
+export interface CriteriaExplanation {
+	/** Explanation message */
+	message: string;
+
+	/** Output line that caused the result, if known */
+	line?: string;
+}
+
+/** Output match of a test property regexp */
+interface CriteriaMatch {
+	/** Matching regexp */
+	pattern: string;
+
+	/** 0-based index of the matching output line, if any */
+	line?: number;
+
+	/** Matching output line, if any */
+	text?: string;
+}
+
+/**
+ * Explain test result with its pass/fail criteria
+ *
+ * This follows the semantics of CTest: skip criteria take precedence, exit
+ * code first, then output regexps and exit code decide whether the test
+ * succeeds, and `WILL_FAIL` inverts the outcome. Exit codes are not reported
+ * by CTest, so they are only inferred when no other criterion applies.
+ *
+ * @param criteria Test pass/fail criteria
+ * @param state Test state reported by CTest
+ * @param lines Test output lines, possibly with CTest header & status lines
+ *
+ * @return Explanation, undefined if the result doesn't depend on criteria
+ */
+export function explainCmakeTestResult(
+	criteria: CmakeTestCriteria,
+	state: 'passed' | 'failed' | 'skipped',
+	lines: string[]
+): CriteriaExplanation | undefined {
+	const {
+		willFail,
+		passRegularExpressions,
+		failRegularExpressions,
+		skipRegularExpressions,
+		skipReturnCode,
+	} = criteria;
+	const output = getTestOutputLines(lines);
+
+	if (state === 'skipped') {
+		// CTest checks the exit code before output regexps
+		const skipMatch = findCriteriaMatch(skipRegularExpressions, output);
+		if (skipReturnCode !== undefined) {
+			return skipMatch
+				? explainMatch(
+						`Skipped: exit code matched SKIP_RETURN_CODE ${skipReturnCode} or output matched SKIP_REGULAR_EXPRESSION`,
+						skipMatch
+					)
+				: {
+						message: `Skipped: SKIP_RETURN_CODE is ${skipReturnCode} (exit code not reported by CTest)`,
+					};
+		}
+		if (skipMatch) {
+			return explainMatch(
+				'Skipped: output matched SKIP_REGULAR_EXPRESSION',
+				skipMatch
+			);
+		}
+		return;
+	}
+
+	// Output regexps force failures, even with a successful exit code
+	const failMatch = findCriteriaMatch(failRegularExpressions, output);
+	const passMatch = findCriteriaMatch(passRegularExpressions, output);
+	const missingPassMatch = passRegularExpressions.length && !passMatch;
+	if (state === 'failed') {
+		if (willFail) {
+			// Tests with passing output regexps succeed regardless of their
+			// exit code, others exit 0
+			if (passMatch) {
+				return explainMatch(
+					'Expected failure (WILL_FAIL) but output matched PASS_REGULAR_EXPRESSION',
+					passMatch
+				);
+			}
+			if (passRegularExpressions.length) {
+				return {
+					message: `Expected failure (WILL_FAIL) but output matched PASS_REGULAR_EXPRESSION ${formatPatterns(passRegularExpressions)}`,
+				};
+			}
+			if (failRegularExpressions.length) {
+				return {
+					message: `Expected failure (WILL_FAIL) but output did not match FAIL_REGULAR_EXPRESSION ${formatPatterns(failRegularExpressions)}`,
+				};
+			}
+			return { message: 'Expected failure (WILL_FAIL) but exited 0' };
+		}
+		if (missingPassMatch) {
+			return {
+				message: `Output did not match PASS_REGULAR_EXPRESSION ${formatPatterns(passRegularExpressions)}`,
+			};
+		}
+		if (failMatch) {
+			return explainMatch(
+				'Output matched FAIL_REGULAR_EXPRESSION',
+				failMatch
+			);
+		}
+		return;
+	}
+
+	// Passed
+	if (willFail) {
+		if (failMatch) {
+			return explainMatch(
+				'Failed as expected (WILL_FAIL): output matched FAIL_REGULAR_EXPRESSION',
+				failMatch
+			);
+		}
+		if (missingPassMatch) {
+			return {
+				message: `Failed as expected (WILL_FAIL): output did not match PASS_REGULAR_EXPRESSION ${formatPatterns(passRegularExpressions)}`,
+			};
+		}
+		if (failRegularExpressions.length) {
+			// Output may match regexps that aren't compatible with JavaScript
+			return { message: 'Failed as expected (WILL_FAIL)' };
+		}
+		return {
+			message: 'Failed as expected (WILL_FAIL) with non-zero exit code',
+		};
+	}
+	if (passMatch) {
+		return explainMatch(
+			'Passed regardless of exit code: output matched PASS_REGULAR_EXPRESSION',
+			passMatch
+		);
+	}
+	return;
+}
+
+/**
+ * Get output lines of the test itself
+ *
+ * @param lines Test output lines, possibly with CTest header & status lines
+ */
+function getTestOutputLines(lines: string[]) {
+	const headerEnd = lines.findIndex((line) => CTEST_HEADER_END_RE.test(line));
+	return lines
+		.slice(headerEnd + 1)
+		.filter((line) => !CTEST_STATUS_RE.test(line));
+}
+
+/**
+ * Find first output match of test property regexps
+ *
+ * CTest matches regexps against the whole output, so regexps spanning several
+ * lines match without a line.
+ *
+ * @param patterns Test property regexps
+ * @param lines Test output lines
+ *
+ * @return First match, undefined if none
+ */
+function findCriteriaMatch(
+	patterns: string[],
+	lines: string[]
+): CriteriaMatch | undefined {
+	for (const pattern of patterns) {
+		let re: RegExp;
+		try {
+			re = new RegExp(pattern, 'm');
+		} catch (e) {
+			// CTest regexps are mostly compatible, ignore others
+			continue;
+		}
+		const line = lines.findIndex((text) => re.test(text));
+		if (line >= 0) return { pattern, line, text: lines[line] };
+		if (re.test(lines.join('\n'))) return { pattern };
+	}
+	return undefined;
+}
+
+/**
+ * Explain result with output match
+ *
+ * @param message Explanation message
+ * @param match Output match
+ */
+function explainMatch(
+	message: string,
+	{ pattern, line, text }: CriteriaMatch
+): CriteriaExplanation {
+	return {
+		message:
+			line !== undefined
+				? `${message} \`${pattern}\` at line ${line + 1}`
+				: `${message} \`${pattern}\``,
+		line: text,
+	};
+}
+
+/**
+ * Format regexps for messages
+ *
+ * @param patterns Regexps
+ */
+function formatPatterns(patterns: string[]) {
+	return patterns.map((pattern) => `\`${pattern}\``).join(', ');
+}
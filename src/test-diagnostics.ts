@@ -0,0 +1,107 @@
+/**
+ * @file Test failure diagnostics for the Problems panel
+ */
+
+import * as vscode from 'vscode';
+
+/** Regexp for warning messages, e.g. `warning: message` */
+const WARNING_MESSAGE_RE = /^warning\b/i;
+
+/** Diagnostic with its file */
+interface TestDiagnostic {
+	uri: vscode.Uri;
+	diagnostic: vscode.Diagnostic;
+}
+
+/**
+ * Test failure diagnostics, tagged with the test that produced them
+ */
+export class TestDiagnostics {
+	/** Diagnostics by root ID then test ID */
+	private data = new Map<string, Map<string, TestDiagnostic[]>>();
+
+	constructor(private collection: vscode.DiagnosticCollection) {}
+
+	/**
+	 * Replace diagnostics of a test with its located messages
+	 *
+	 * @param rootId Root item ID
+	 * @param testId Test key
+	 * @param label Test label, used as diagnostic source
+	 * @param messages Test messages, those without location are ignored
+	 */
+	set(
+		rootId: string,
+		testId: string,
+		label: string,
+		messages: readonly vscode.TestMessage[]
+	) {
+		const diagnostics: TestDiagnostic[] = [];
+		for (const { message, location } of messages) {
+			if (!location) continue;
+			const text = typeof message === 'string' ? message : message.value;
+			const diagnostic = new vscode.Diagnostic(
+				location.range,
+				text,
+				WARNING_MESSAGE_RE.test(text)
+					? vscode.DiagnosticSeverity.Warning
+					: vscode.DiagnosticSeverity.Error
+			);
+			diagnostic.source = label;
+			diagnostics.push({ uri: location.uri, diagnostic });
+		}
+
+		const tests = this.data.get(rootId) || new Map();
+		const uris = [...(tests.get(testId) || []), ...diagnostics].map(
+			({ uri }) => uri
+		);
+		if (diagnostics.length) {
+			tests.set(testId, diagnostics);
+		} else {
+			tests.delete(testId);
+		}
+		if (tests.size) {
+			this.data.set(rootId, tests);
+		} else {
+			this.data.delete(rootId);
+		}
+		this.update(uris);
+	}
+
+	/**
+	 * Clear diagnostics of all tests in a root
+	 *
+	 * @param rootId Root item ID
+	 */
+	clear(rootId: string) {
+		const tests = this.data.get(rootId);
+		if (!tests) return;
+		this.data.delete(rootId);
+		const uris: vscode.Uri[] = [];
+		for (const diagnostics of tests.values()) {
+			uris.push(...diagnostics.map(({ uri }) => uri));
+		}
+		this.update(uris);
+	}
+
+	/**
+	 * Update diagnostic collection for files
+	 *
+	 * @param uris File URIs
+	 */
+	private update(uris: vscode.Uri[]) {
+		const files = new Map(uris.map((uri) => [uri.toString(), uri]));
+		for (const [key, file] of files) {
+			const diagnostics: vscode.Diagnostic[] = [];
+			for (const tests of this.data.values()) {
+				for (const testDiagnostics of tests.values()) {
+					for (const { uri, diagnostic } of testDiagnostics) {
+						if (uri.toString() === key)
+							diagnostics.push(diagnostic);
+					}
+				}
+			}
+			this.collection.set(file, diagnostics);
+		}
+	}
+}
@@ -0,0 +1,140 @@
+/**
+ * @file Persistent test history
+ */
+
+import * as vscode from 'vscode';
+
+/** Key of test history in workspace state */
+const TEST_HISTORY_KEY = 'cmakeExplorer.testHistory';
+
+/** Maximum number of entries kept per test */
+const TEST_HISTORY_SIZE = 20;
+
+/** Minimum number of pass/fail transitions for a test to be flaky */
+const FLAKY_MIN_TRANSITIONS = 2;
+
+/** Test history entry */
+export interface TestHistoryEntry {
+	/** Test state */
+	state: 'passed' | 'failed' | 'skipped';
+
+	/** Duration in milliseconds, if known */
+	duration?: number;
+
+	/** Timestamp in milliseconds since epoch */
+	timestamp: number;
+}
+
+/** Stored history, by root ID then test ID */
+type TestHistoryData = {
+	[rootId: string]: { [testId: string]: TestHistoryEntry[] };
+};
+
+/**
+ * Test history stored in workspace state
+ */
+export class TestHistory {
+	private data: TestHistoryData;
+
+	constructor(private state: vscode.Memento) {
+		this.data = state.get<TestHistoryData>(TEST_HISTORY_KEY) || {};
+	}
+
+	/**
+	 * Get history of a test, from oldest to newest
+	 *
+	 * @param rootId Root item ID
+	 * @param testId Test item ID
+	 */
+	get(rootId: string, testId: string): TestHistoryEntry[] {
+		return this.data[rootId]?.[testId] || [];
+	}
+
+	/**
+	 * Get IDs of tests with history
+	 *
+	 * @return Pairs of root and test IDs
+	 */
+	getTestIds(): [string, string][] {
+		const ids: [string, string][] = [];
+		for (const rootId in this.data) {
+			for (const testId in this.data[rootId]) {
+				ids.push([rootId, testId]);
+			}
+		}
+		return ids;
+	}
+
+	/**
+	 * Add entry to test history
+	 *
+	 * Call {@link save} to persist changes.
+	 *
+	 * @param rootId Root item ID
+	 * @param testId Test item ID
+	 * @param entry History entry
+	 */
+	add(rootId: string, testId: string, entry: TestHistoryEntry) {
+		const tests = (this.data[rootId] = this.data[rootId] || {});
+		tests[testId] = [...(tests[testId] || []), entry].slice(
+			-TEST_HISTORY_SIZE
+		);
+	}
+
+	/**
+	 * Remove history of tests that no longer exist
+	 *
+	 * Call {@link save} to persist changes.
+	 *
+	 * @param rootId Root item ID
+	 * @param testIds IDs of existing tests, empty if the root is gone
+	 */
+	prune(rootId: string, testIds: string[]) {
+		const tests = this.data[rootId];
+		if (!tests) return;
+		const existing = new Set(testIds);
+		for (const testId in tests) {
+			if (!existing.has(testId)) delete tests[testId];
+		}
+		if (!Object.keys(tests).length) delete this.data[rootId];
+	}
+
+	/**
+	 * Persist history to workspace state
+	 */
+	save() {
+		return this.state.update(TEST_HISTORY_KEY, this.data);
+	}
+}
+
+/**
+ * Check whether a test is flaky
+ *
+ * A test is flaky when it alternates between pass and fail in its history.
+ * Skipped runs are ignored.
+ *
+ * @param history Test history
+ */
+export function isFlakyTest(history: TestHistoryEntry[]) {
+	const states = history
+		.map(({ state }) => state)
+		.filter((state) => state !== 'skipped');
+	let transitions = 0;
+	for (let i = 1; i < states.length; i++) {
+		if (states[i] !== states[i - 1]) transitions++;
+	}
+	return transitions >= FLAKY_MIN_TRANSITIONS;
+}
+
+/**
+ * Get pass rate of a test
+ *
+ * @param history Test history
+ *
+ * @return Pass rate between 0 and 1, or undefined if the test never ran
+ */
+export function getPassRate(history: TestHistoryEntry[]) {
+	const runs = history.filter(({ state }) => state !== 'skipped');
+	if (!runs.length) return;
+	return runs.filter(({ state }) => state === 'passed').length / runs.length;
+}
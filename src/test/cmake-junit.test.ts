@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import { parseCmakeJunitReport } from '../cmake-junit';
+
+describe('parseCmakeJunitReport', () => {
+	it('parses test cases', () => {
+		const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuite name="Linux" tests="3" failures="1" disabled="1" skipped="0">
+	<testcase name="passed" classname="passed" time="0.012" status="run">
+		<system-out>line 1
+line 2</system-out>
+	</testcase>
+	<testcase name="failed" classname="failed" time="1.5" status="fail">
+		<failure message="Failed"/>
+		<system-out>error &lt;here&gt;</system-out>
+	</testcase>
+	<testcase name="disabled" classname="disabled" time="0" status="disabled">
+		<skipped message="Disabled"/>
+		<system-out/>
+	</testcase>
+</testsuite>`;
+		assert.deepStrictEqual(parseCmakeJunitReport(xml), [
+			{
+				name: 'passed',
+				status: 'run',
+				duration: 12,
+				message: undefined,
+				output: 'line 1\nline 2',
+			},
+			{
+				name: 'failed',
+				status: 'fail',
+				duration: 1500,
+				message: 'Failed',
+				output: 'error <here>',
+			},
+			{
+				name: 'disabled',
+				status: 'disabled',
+				duration: 0,
+				message: 'Disabled',
+				output: '',
+			},
+		]);
+	});
+
+	it('keeps numeric test names as strings', () => {
+		const xml =
+			'<testsuite><testcase name="123" status="run"/></testsuite>';
+		assert.deepStrictEqual(parseCmakeJunitReport(xml), [
+			{
+				name: '123',
+				status: 'run',
+				duration: undefined,
+				message: undefined,
+				output: '',
+			},
+		]);
+	});
+
+	it('handles empty reports', () => {
+		assert.deepStrictEqual(parseCmakeJunitReport('<testsuite/>'), []);
+	});
+});
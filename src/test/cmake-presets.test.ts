@@ -0,0 +1,172 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	CMAKE_PRESETS_FILE,
+	CMAKE_USER_PRESETS_FILE,
+	getCmakeTestPreset,
+	getCmakeTestPresets,
+} from '../cmake-presets';
+
+describe('CMake presets', () => {
+	let sourceDir: string;
+	const writePresets = (file: string, data: object) =>
+		fs.writeFileSync(path.join(sourceDir, file), JSON.stringify(data));
+
+	beforeEach(() => {
+		sourceDir = fs.mkdtempSync(
+			path.join(os.tmpdir(), 'cmake-presets-test-')
+		);
+	});
+	afterEach(() => {
+		fs.rmSync(sourceDir, { recursive: true, force: true });
+	});
+
+	it('resolves inherited fields & environments', () => {
+		writePresets(CMAKE_PRESETS_FILE, {
+			version: 6,
+			configurePresets: [
+				{
+					name: 'base',
+					hidden: true,
+					binaryDir: '${sourceDir}/build/${presetName}',
+					environment: { A: 'base', B: 'base' },
+				},
+				{
+					name: 'debug',
+					inherits: 'base',
+					environment: { B: 'debug', C: '$env{A}-c' },
+				},
+			],
+			testPresets: [
+				{
+					name: 'parent1',
+					hidden: true,
+					configuration: 'Parent1',
+					execution: { jobs: 4 },
+				},
+				{
+					name: 'parent2',
+					hidden: true,
+					configuration: 'Parent2',
+					environment: { D: 'parent2' },
+				},
+				{
+					name: 'test',
+					displayName: 'Test',
+					inherits: ['parent1', 'parent2'],
+					configurePreset: 'debug',
+					environment: { E: '${presetName}', B: null },
+				},
+			],
+		});
+		assert.deepStrictEqual(getCmakeTestPresets(sourceDir), [
+			{
+				name: 'test',
+				displayName: 'Test',
+				description: undefined,
+				sourceDir,
+				buildDir: path.join(sourceDir, 'build', 'debug'),
+				configuration: 'Parent1',
+				environment: {
+					A: 'base',
+					C: 'base-c',
+					D: 'parent2',
+					E: 'test',
+				},
+				jobs: 4,
+			},
+		]);
+	});
+
+	it('excludes presets whose condition is false', () => {
+		writePresets(CMAKE_PRESETS_FILE, {
+			version: 6,
+			configurePresets: [{ name: 'config', binaryDir: 'build' }],
+			testPresets: [
+				{
+					name: 'equals',
+					configurePreset: 'config',
+					condition: {
+						type: 'equals',
+						lhs: '${presetName}',
+						rhs: 'equals',
+					},
+				},
+				{
+					name: 'notInList',
+					configurePreset: 'config',
+					condition: {
+						type: 'notInList',
+						string: '${presetName}',
+						list: ['notInList'],
+					},
+				},
+				{
+					name: 'anyOf',
+					configurePreset: 'config',
+					condition: {
+						type: 'anyOf',
+						conditions: [
+							{ type: 'const', value: false },
+							{
+								type: 'matches',
+								string: '${presetName}',
+								regex: '^any',
+							},
+						],
+					},
+				},
+				{
+					name: 'not',
+					configurePreset: 'config',
+					condition: { type: 'not', condition: true },
+				},
+			],
+		});
+		assert.deepStrictEqual(
+			getCmakeTestPresets(sourceDir).map(({ name }) => name),
+			['equals', 'anyOf']
+		);
+	});
+
+	it('loads user presets on top of included files', () => {
+		writePresets(CMAKE_PRESETS_FILE, {
+			version: 6,
+			configurePresets: [{ name: 'config', binaryDir: 'build' }],
+		});
+		writePresets(CMAKE_USER_PRESETS_FILE, {
+			version: 6,
+			include: [CMAKE_PRESETS_FILE],
+			testPresets: [{ name: 'user', configurePreset: 'config' }],
+		});
+		assert.strictEqual(
+			getCmakeTestPreset(sourceDir, 'user').buildDir,
+			path.join(sourceDir, 'build')
+		);
+	});
+
+	it('rejects circular inheritance', () => {
+		writePresets(CMAKE_PRESETS_FILE, {
+			version: 6,
+			configurePresets: [{ name: 'config', binaryDir: 'build' }],
+			testPresets: [
+				{ name: 'a', inherits: 'b', configurePreset: 'config' },
+				{ name: 'b', inherits: 'a' },
+			],
+		});
+		assert.throws(
+			() => getCmakeTestPreset(sourceDir, 'a'),
+			/Circular inheritance/
+		);
+	});
+
+	it('rejects unavailable presets', () => {
+		writePresets(CMAKE_PRESETS_FILE, { version: 6 });
+		assert.throws(
+			() => getCmakeTestPreset(sourceDir, 'missing'),
+			/not available/
+		);
+	});
+});
@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+import { CmakeTestEvent, executeCmakeTestProcess } from '../cmake-runner';
+import { CmakeTestProcess } from '../interfaces/cmake-test-process';
+
+/** CTest output of a run with a missing test executable */
+const STDOUT = [
+	'    Start 1: missing',
+	'1/2 Test #1: missing ..........................***Not Run   0.00 sec',
+	'    Start 2: passing',
+	'2/2 Test #2: passing ..........................   Passed    0.01 sec',
+];
+const STDERR = ['Unable to find executable: /build/missing'];
+
+/**
+ * Create exited test process with given outputs
+ *
+ * Stderr is written after stdout, as nothing orders both streams.
+ *
+ * @param stdout Stdout lines
+ * @param stderr Stderr lines
+ */
+function createTestProcess(stdout: string[], stderr: string[]) {
+	const testProcess = Object.assign(new EventEmitter(), {
+		stdout: new PassThrough(),
+		stderr: new PassThrough(),
+		exitCode: 8,
+		signalCode: null,
+	});
+	testProcess.stdout.end(stdout.map((line) => `${line}\n`).join(''));
+	setImmediate(() =>
+		testProcess.stderr.end(stderr.map((line) => `${line}\n`).join(''))
+	);
+	return testProcess as unknown as CmakeTestProcess;
+}
+
+/**
+ * Get end events raised by CMake test process
+ *
+ * @param options Run options
+ */
+async function getEndEvents(
+	options: Parameters<typeof executeCmakeTestProcess>[2]
+) {
+	const events: CmakeTestEvent[] = [];
+	await executeCmakeTestProcess(
+		createTestProcess(STDOUT, STDERR),
+		(event) => events.push(event),
+		options
+	);
+	return events.filter((event) => event.type === 'end');
+}
+
+describe('executeCmakeTestProcess', () => {
+	it('attaches stderr reasons to tests that did not run', async () => {
+		const events = await getEndEvents({});
+		assert.deepStrictEqual(
+			events.map(({ index, reason, details }) => ({
+				index,
+				reason,
+				details,
+			})),
+			[
+				{ index: 2, reason: undefined, details: undefined },
+				{
+					index: 1,
+					reason: 'notRun',
+					details: 'Unable to find executable: /build/missing',
+				},
+			]
+		);
+	});
+
+	it('attaches stderr reasons to deferred end events', async () => {
+		const events = await getEndEvents({ memcheck: true });
+		assert.deepStrictEqual(
+			events.map(({ index, provisional, details }) => ({
+				index,
+				provisional,
+				details,
+			})),
+			[
+				{ index: 1, provisional: true, details: undefined },
+				{ index: 2, provisional: true, details: undefined },
+				{
+					index: 1,
+					provisional: undefined,
+					details: 'Unable to find executable: /build/missing',
+				},
+				{ index: 2, provisional: undefined, details: undefined },
+			]
+		);
+	});
+});
@@ -0,0 +1,103 @@
+import * as assert from 'assert';
+import { getErrorMatchers, matchErrors } from '../error-matchers';
+
+describe('getErrorMatchers', () => {
+	it('rejects unknown presets', () => {
+		assert.throws(() => getErrorMatchers(['unknown']), /unknown/);
+	});
+
+	it('rejects invalid regular expressions', () => {
+		assert.throws(() => getErrorMatchers([{ pattern: '(' }]));
+	});
+});
+
+describe('matchErrors', () => {
+	it('matches GCC diagnostics', () => {
+		const lines = [
+			'test.c:12:5: error: expected ‘;’',
+			'\x1b[01mtest.c:20:1: warning: unused variable\x1b[0m',
+			'In file included from main.c:1:',
+		];
+		assert.deepStrictEqual(matchErrors(lines, getErrorMatchers(['gcc'])), [
+			{
+				file: 'test.c',
+				line: 12,
+				column: 5,
+				severity: 'error',
+				message: 'expected ‘;’',
+			},
+			{
+				file: 'test.c',
+				line: 20,
+				column: 1,
+				severity: 'warning',
+				message: 'unused variable',
+			},
+		]);
+	});
+
+	it('matches MSVC diagnostics', () => {
+		const lines = ['test.cpp(12,5): error C2065: undeclared identifier'];
+		assert.deepStrictEqual(matchErrors(lines, getErrorMatchers(['msvc'])), [
+			{
+				file: 'test.cpp',
+				line: 12,
+				column: 5,
+				severity: 'error',
+				message: 'C2065: undeclared identifier',
+			},
+		]);
+	});
+
+	it('matches GoogleTest failures with message lines', () => {
+		const lines = [
+			'[ RUN      ] Suite.Case',
+			'test.cc:12: Failure',
+			'Expected equality of these values:',
+			'  a',
+			'test.cc:20: Failure',
+			'Failed',
+			'[  FAILED  ] Suite.Case (0 ms)',
+		];
+		assert.deepStrictEqual(
+			matchErrors(lines, getErrorMatchers(['gtest'])),
+			[
+				{
+					file: 'test.cc',
+					line: 12,
+					column: undefined,
+					severity: undefined,
+					message: 'Expected equality of these values:\n  a',
+				},
+				{
+					file: 'test.cc',
+					line: 20,
+					column: undefined,
+					severity: undefined,
+					message: 'Failed',
+				},
+			]
+		);
+	});
+
+	it('matches custom patterns', () => {
+		const matchers = getErrorMatchers([
+			{
+				pattern: [
+					String.raw`^ASSERT (?<message>.*)$`,
+					String.raw`^  at (?<file>.+):(?<line>\d+)$`,
+				],
+			},
+		]);
+		const lines = ['ASSERT x > 0', '  at test.c:3', 'ASSERT y > 0'];
+		assert.deepStrictEqual(matchErrors(lines, matchers), [
+			{
+				file: 'test.c',
+				line: 3,
+				column: undefined,
+				severity: undefined,
+				message: 'x > 0',
+			},
+		]);
+	});
+});
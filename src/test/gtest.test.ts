@@ -0,0 +1,234 @@
+import * as assert from 'assert';
+import {
+	getGtestFilter,
+	parseGtestList,
+	parseGtestOutput,
+	parseGtestReport,
+} from '../gtest';
+
+describe('parseGtestList', () => {
+	it('parses suites & cases', () => {
+		const output = [
+			'Running main() from gtest_main.cc',
+			'Suite.',
+			'  Case1',
+			'  Case2',
+			'Typed/0.  # TypeParam = int',
+			'  Case',
+			'Instance/Param.',
+			'  Case/0  # GetParam() = 2',
+			'',
+		].join('\n');
+		assert.deepStrictEqual(parseGtestList(output), [
+			{ name: 'Suite', cases: ['Case1', 'Case2'] },
+			{ name: 'Typed/0', cases: ['Case'] },
+			{ name: 'Instance/Param', cases: ['Case/0'] },
+		]);
+	});
+
+	it('handles CRLF line endings', () => {
+		assert.deepStrictEqual(parseGtestList('Suite.\r\n  Case\r\n'), [
+			{ name: 'Suite', cases: ['Case'] },
+		]);
+	});
+});
+
+describe('parseGtestReport', () => {
+	it('parses case results', () => {
+		const json = JSON.stringify({
+			testsuites: [
+				{
+					name: 'Suite',
+					testsuite: [
+						{
+							name: 'Passed',
+							status: 'RUN',
+							result: 'COMPLETED',
+							time: '0.012s',
+						},
+						{
+							name: 'Failed',
+							status: 'RUN',
+							result: 'COMPLETED',
+							time: '0s',
+							failures: [
+								{
+									failure:
+										'test.cc:12\nExpected equality of these values:\n  1\n  2',
+								},
+							],
+						},
+						{
+							name: 'Skipped',
+							status: 'RUN',
+							result: 'SKIPPED',
+							time: '0s',
+						},
+						{
+							name: 'DISABLED_Case',
+							status: 'NOTRUN',
+							result: 'SUPPRESSED',
+							time: '0s',
+						},
+					],
+				},
+			],
+		});
+		assert.deepStrictEqual(parseGtestReport(json, '/build'), [
+			{
+				name: 'Suite.Passed',
+				state: 'passed',
+				duration: 12,
+				failures: [],
+			},
+			{
+				name: 'Suite.Failed',
+				state: 'failed',
+				duration: 0,
+				failures: [
+					{
+						message: 'Expected equality of these values:\n  1\n  2',
+						file: '/build/test.cc',
+						line: 12,
+						expected: '1',
+						actual: '2',
+					},
+				],
+			},
+			{
+				name: 'Suite.Skipped',
+				state: 'skipped',
+				duration: 0,
+				failures: [],
+			},
+			{
+				name: 'Suite.DISABLED_Case',
+				state: 'skipped',
+				duration: 0,
+				failures: [],
+			},
+		]);
+	});
+
+	it('keeps failures without location', () => {
+		const json = JSON.stringify({
+			testsuites: [
+				{
+					name: 'Suite',
+					testsuite: [
+						{
+							name: 'Case',
+							status: 'RUN',
+							failures: [{ failure: 'Unknown C++ exception' }],
+						},
+					],
+				},
+			],
+		});
+		assert.deepStrictEqual(parseGtestReport(json, '/build')[0].failures, [
+			{ message: 'Unknown C++ exception' },
+		]);
+	});
+});
+
+describe('parseGtestOutput', () => {
+	it('parses case results', () => {
+		const lines = [
+			'Running main() from gtest_main.cc',
+			'[==========] Running 4 tests from 2 test suites.',
+			'[ RUN      ] Suite.Passed',
+			'[       OK ] Suite.Passed (12 ms)',
+			'[ RUN      ] Suite.Failed',
+			'/src/test.cc:12: Failure',
+			'Expected equality of these values:',
+			'  1',
+			'  2',
+			'[  FAILED  ] Suite.Failed (1 ms)',
+			'[ RUN      ] Instance/Param.Case/0',
+			'test.cc(20): error: Value of: ok',
+			'  Actual: false',
+			'Expected: true',
+			'[  FAILED  ] Instance/Param.Case/0, where GetParam() = 2 (3 ms)',
+			'[ RUN      ] Suite.Skipped',
+			'[  SKIPPED ] Suite.Skipped (0 ms)',
+			'[==========] 4 tests from 2 test suites ran. (16 ms total)',
+			'[  FAILED  ] Suite.Failed',
+		];
+		assert.deepStrictEqual(parseGtestOutput(lines, '/build'), [
+			{
+				name: 'Suite.Passed',
+				state: 'passed',
+				duration: 12,
+				failures: [],
+			},
+			{
+				name: 'Suite.Failed',
+				state: 'failed',
+				duration: 1,
+				failures: [
+					{
+						message: 'Expected equality of these values:\n  1\n  2',
+						file: '/src/test.cc',
+						line: 12,
+						expected: '1',
+						actual: '2',
+					},
+				],
+			},
+			{
+				name: 'Instance/Param.Case/0',
+				state: 'failed',
+				duration: 3,
+				failures: [
+					{
+						message:
+							'Value of: ok\n  Actual: false\nExpected: true',
+						file: '/build/test.cc',
+						line: 20,
+						expected: 'true',
+						actual: 'false',
+					},
+				],
+			},
+			{
+				name: 'Suite.Skipped',
+				state: 'skipped',
+				duration: 0,
+				failures: [],
+			},
+		]);
+	});
+
+	it('fails unfinished cases', () => {
+		const lines = [
+			'[ RUN      ] Suite.Crashed',
+			'/src/test.cc:5: Failure',
+			'Failed',
+		];
+		assert.deepStrictEqual(parseGtestOutput(lines, '/build'), [
+			{
+				name: 'Suite.Crashed',
+				state: 'failed',
+				failures: [
+					{ message: 'Failed', file: '/src/test.cc', line: 5 },
+					{ message: 'Test did not finish' },
+				],
+			},
+		]);
+	});
+});
+
+describe('getGtestFilter', () => {
+	const allNames = ['A.a', 'A.b', 'B.a', 'B.b', 'Param/C.c/0'];
+
+	it('matches all cases with a wildcard', () => {
+		assert.strictEqual(getGtestFilter(allNames, allNames), '*');
+	});
+
+	it('collapses fully selected suites', () => {
+		assert.strictEqual(
+			getGtestFilter(['A.a', 'A.b', 'B.b', 'Param/C.c/0'], allNames),
+			'A.*:B.b:Param/C.*'
+		);
+	});
+});
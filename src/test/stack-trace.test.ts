@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import { parseStackTraces } from '../stack-trace';
+
+describe('parseStackTraces', () => {
+	it('parses sanitizer reports', () => {
+		const lines = [
+			'==1234==ERROR: AddressSanitizer: heap-use-after-free on address 0x602000000010',
+			'READ of size 4 at 0x602000000010 thread T0',
+			'    #0 0x4c3b2a in func(int) /src/test.cpp:12:5',
+			'    #1 0x7f3a9c in __libc_start_main (/lib/libc.so.6+0x21b96)',
+			'freed by thread T0 here:',
+			'    #0 0x4a1b2c in free (/build/test+0x4a1b2c)',
+			'SUMMARY: AddressSanitizer: heap-use-after-free /src/test.cpp:12:5 in func(int)',
+			'after report',
+		];
+		const [report, ...others] = parseStackTraces(lines);
+		assert.deepStrictEqual(others, []);
+		assert.strictEqual(report.message, lines.slice(0, 7).join('\n'));
+		assert.deepStrictEqual(report.frames, [
+			{ label: 'func(int)', file: '/src/test.cpp', line: 12, column: 5 },
+			{ label: '__libc_start_main (/lib/libc.so.6+0x21b96)' },
+		]);
+	});
+
+	it('parses UBSan runtime errors', () => {
+		const lines = [
+			'/src/test.cpp:12:5: runtime error: signed integer overflow',
+			'    #0 0x4c3b2a in func(int) /src/test.cpp:12:5',
+			'next line',
+		];
+		assert.deepStrictEqual(parseStackTraces(lines), [
+			{
+				message: lines.slice(0, 2).join('\n'),
+				frames: [
+					{
+						label: 'func(int)',
+						file: '/src/test.cpp',
+						line: 12,
+						column: 5,
+					},
+				],
+				file: '/src/test.cpp',
+				line: 12,
+				column: 5,
+			},
+		]);
+	});
+
+	it('parses gdb backtraces', () => {
+		const lines = [
+			'Program received signal SIGSEGV, Segmentation fault.',
+			'#0  0x0000555555555131 in func (x=1) at /src/test.c:12',
+			'#1  main () at test.c:20',
+			'#2  0x00007ffff7a05b97 in __libc_start_main () from /lib/libc.so.6',
+		];
+		assert.deepStrictEqual(parseStackTraces(lines), [
+			{
+				message: 'Program received signal SIGSEGV, Segmentation fault.',
+				frames: [
+					{ label: 'func (x=1)', file: '/src/test.c', line: 12 },
+					{ label: 'main ()', file: 'test.c', line: 20 },
+					{ label: '__libc_start_main () from /lib/libc.so.6' },
+				],
+			},
+		]);
+	});
+
+	it('parses std::stacktrace frames', () => {
+		const lines = [
+			'terminate called',
+			' 0# func(int) at /src/test.cpp:12',
+			' 1# main in ./test',
+		];
+		assert.deepStrictEqual(parseStackTraces(lines), [
+			{
+				message: 'terminate called',
+				frames: [
+					{ label: 'func(int)', file: '/src/test.cpp', line: 12 },
+					{ label: 'main in ./test' },
+				],
+			},
+		]);
+	});
+
+	it('ignores output without stack traces', () => {
+		assert.deepStrictEqual(parseStackTraces(['#1 is the best', '']), []);
+	});
+});
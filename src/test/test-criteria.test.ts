@@ -0,0 +1,160 @@
+import * as assert from 'assert';
+import { CmakeTestCriteria } from '../cmake-runner';
+import { explainCmakeTestResult } from '../test-criteria';
+
+/** Criteria of tests without properties */
+const NO_CRITERIA: CmakeTestCriteria = {
+	willFail: false,
+	passRegularExpressions: [],
+	failRegularExpressions: [],
+	skipRegularExpressions: [],
+};
+
+/** Verbose CTest output with header & status lines */
+const OUTPUT = [
+	'Test command: /build/test "--pattern=FAIL"',
+	'Working Directory: /build',
+	'Test timeout computed to be: 1500',
+	'starting',
+	'FAIL: something',
+	'done',
+	'1/1 Test #1: test .............***Failed    0.01 sec',
+];
+
+describe('explainCmakeTestResult', () => {
+	it('ignores results decided by exit code alone', () => {
+		assert.strictEqual(
+			explainCmakeTestResult(NO_CRITERIA, 'passed', OUTPUT),
+			undefined
+		);
+		assert.strictEqual(
+			explainCmakeTestResult(NO_CRITERIA, 'failed', OUTPUT),
+			undefined
+		);
+	});
+
+	it('explains failures by output regexps', () => {
+		assert.deepStrictEqual(
+			explainCmakeTestResult(
+				{ ...NO_CRITERIA, failRegularExpressions: ['^FAIL'] },
+				'failed',
+				OUTPUT
+			),
+			{
+				message:
+					'Output matched FAIL_REGULAR_EXPRESSION `^FAIL` at line 2',
+				line: 'FAIL: something',
+			}
+		);
+	});
+
+	it('explains missing pass matches before fail matches', () => {
+		assert.deepStrictEqual(
+			explainCmakeTestResult(
+				{
+					...NO_CRITERIA,
+					passRegularExpressions: ['^PASS'],
+					failRegularExpressions: ['^FAIL'],
+				},
+				'failed',
+				OUTPUT
+			),
+			{
+				message: 'Output did not match PASS_REGULAR_EXPRESSION `^PASS`',
+			}
+		);
+	});
+
+	it('ignores matches in CTest header & status lines', () => {
+		assert.strictEqual(
+			explainCmakeTestResult(
+				{ ...NO_CRITERIA, failRegularExpressions: ['pattern'] },
+				'failed',
+				OUTPUT
+			),
+			undefined
+		);
+	});
+
+	it('explains passes by output regexps', () => {
+		assert.deepStrictEqual(
+			explainCmakeTestResult(
+				{ ...NO_CRITERIA, passRegularExpressions: ['done'] },
+				'passed',
+				OUTPUT
+			),
+			{
+				message:
+					'Passed regardless of exit code: output matched PASS_REGULAR_EXPRESSION `done` at line 3',
+				line: 'done',
+			}
+		);
+	});
+
+	it('explains inverted results of WILL_FAIL tests', () => {
+		assert.deepStrictEqual(
+			explainCmakeTestResult(
+				{ ...NO_CRITERIA, willFail: true },
+				'failed',
+				OUTPUT
+			),
+			{ message: 'Expected failure (WILL_FAIL) but exited 0' }
+		);
+		assert.deepStrictEqual(
+			explainCmakeTestResult(
+				{ ...NO_CRITERIA, willFail: true },
+				'passed',
+				OUTPUT
+			),
+			{
+				message:
+					'Failed as expected (WILL_FAIL) with non-zero exit code',
+			}
+		);
+	});
+
+	it('explains skips by exit code before output regexps', () => {
+		assert.deepStrictEqual(
+			explainCmakeTestResult(
+				{
+					...NO_CRITERIA,
+					skipRegularExpressions: ['^start'],
+					skipReturnCode: 4,
+				},
+				'skipped',
+				OUTPUT
+			),
+			{
+				message:
+					'Skipped: exit code matched SKIP_RETURN_CODE 4 or output matched SKIP_REGULAR_EXPRESSION `^start` at line 1',
+				line: 'starting',
+			}
+		);
+		assert.deepStrictEqual(
+			explainCmakeTestResult(
+				{ ...NO_CRITERIA, skipReturnCode: 4 },
+				'skipped',
+				OUTPUT
+			),
+			{
+				message:
+					'Skipped: SKIP_RETURN_CODE is 4 (exit code not reported by CTest)',
+			}
+		);
+	});
+
+	it('explains skips by output regexps', () => {
+		assert.deepStrictEqual(
+			explainCmakeTestResult(
+				{ ...NO_CRITERIA, skipRegularExpressions: ['^start'] },
+				'skipped',
+				OUTPUT
+			),
+			{
+				message:
+					'Skipped: output matched SKIP_REGULAR_EXPRESSION `^start` at line 1',
+				line: 'starting',
+			}
+		);
+	});
+});
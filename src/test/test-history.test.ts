@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TestHistory } from '../test-history';
+
+/**
+ * Create in-memory workspace state
+ */
+function createMemento() {
+	const values = new Map<string, unknown>();
+	return {
+		keys: () => [...values.keys()],
+		get: (key: string) => values.get(key),
+		update: async (key: string, value: unknown) => {
+			values.set(key, value);
+		},
+	} as vscode.Memento;
+}
+
+describe('TestHistory', () => {
+	const entry = { state: 'passed' as const, timestamp: 0 };
+
+	it('prunes history of removed tests', async () => {
+		const state = createMemento();
+		const history = new TestHistory(state);
+		history.add('root', 'kept', entry);
+		history.add('root', 'removed', entry);
+		history.add('other', 'test', entry);
+		history.prune('root', ['kept', 'new']);
+		await history.save();
+
+		assert.deepStrictEqual(new TestHistory(state).getTestIds(), [
+			['root', 'kept'],
+			['other', 'test'],
+		]);
+	});
+
+	it('prunes removed roots', () => {
+		const history = new TestHistory(createMemento());
+		history.add('root', 'test', entry);
+		history.prune('root', []);
+		assert.deepStrictEqual(history.getTestIds(), []);
+	});
+});